@@ -7,6 +7,9 @@ import {ImageModule} from './image/image.module';
 import {VideoModule} from './video/video.module';
 import {WorkflowModule} from './workflow/workflow.module';
 import {InstagramModule} from './instagram/instagram.module';
+import {BrandModule} from './brand/brand.module';
+import {DashboardModule} from './dashboard/dashboard.module';
+import {ChatApprovalModule} from './chat/chat.module';
 
 @Module({
   imports: [
@@ -19,7 +22,10 @@ import {InstagramModule} from './instagram/instagram.module';
     ImageModule,
     VideoModule,
     WorkflowModule,
-    InstagramModule
+    InstagramModule,
+    BrandModule,
+    DashboardModule,
+    ChatApprovalModule
   ],
   controllers: [AppController],
   providers: [AppService],
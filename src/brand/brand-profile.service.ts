@@ -0,0 +1,177 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { JsonFileStore } from '../util/json-store';
+import { pickDefinedFields } from '../util/pick-fields';
+import { BrandVoice, CaptionOptions } from '../util/caption-helper';
+import { EmojiPolicy } from '../util/caption-validator';
+import { ApprovalChannelName, APPROVAL_CHANNEL_NAMES } from '../chat/chat-channels';
+import { isHexColor } from '../image/image-fit';
+
+export const CAPTION_TONES: CaptionOptions['tone'][] = ['casual', 'professional', 'funny', 'inspirational', 'trendy', 'educational'];
+export const EMOJI_POLICIES: EmojiPolicy[] = ['none', 'minimal', 'moderate', 'heavy'];
+
+export interface BrandProfile extends BrandVoice {
+  tone: CaptionOptions['tone'];
+  targetAudience: string;
+  maxHashtags: number;
+  maxCaptionLength: number;
+  includeCallToAction: boolean;
+  exampleCaptions: string[];
+  bannedWords: string[];
+  requiredHashtags: string[];
+  emojiPolicy: EmojiPolicy;
+  approvalChannels?: ApprovalChannelName[]; // Where this brand's content goes for review, unless the workflow says otherwise
+  brandColor?: string; // Hex color used when images are padded instead of cropped
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BrandProfileInput = Partial<Omit<BrandProfile, 'createdAt' | 'updatedAt'>>;
+
+// What PUT /brands/:name may change; the name is the key
+const EDITABLE_FIELDS: Array<keyof BrandProfileInput> = [
+  'description', 'tone', 'targetAudience', 'maxHashtags', 'maxCaptionLength', 'includeCallToAction', 'exampleCaptions',
+  'bannedWords', 'requiredHashtags', 'emojiPolicy', 'signature', 'approvalChannels', 'brandColor',
+];
+
+// Seeded on start when missing and can't be deleted, since it's the fallback for every run;
+// matches the caption settings used before profiles existed
+const DEFAULT_PROFILE_NAME = 'default';
+const DEFAULT_PROFILE: BrandProfileInput = {
+  name: DEFAULT_PROFILE_NAME,
+  tone: 'casual',
+  targetAudience: 'social media users',
+  maxHashtags: 15,
+  maxCaptionLength: 300,
+  includeCallToAction: true,
+  emojiPolicy: 'moderate',
+};
+
+@Injectable()
+export class BrandProfileService {
+  private readonly logger = new Logger(BrandProfileService.name);
+  private readonly store = new JsonFileStore<BrandProfile>('brand-profiles');
+
+  constructor() {
+    if (!this.store.get(DEFAULT_PROFILE_NAME)) {
+      this.createProfile(DEFAULT_PROFILE);
+    }
+  }
+
+  listProfiles(): BrandProfile[] {
+    return this.store.getAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getProfile(name: string): BrandProfile {
+    const profile = this.store.get(name);
+    if (!profile) {
+      throw new NotFoundException(`Brand profile "${name}" not found`);
+    }
+    return profile;
+  }
+
+  /**
+   * Profile for a workflow run: the requested one, else DEFAULT_BRAND_PROFILE, else "default"
+   */
+  resolveProfile(name?: string): BrandProfile {
+    return this.getProfile(name || process.env.DEFAULT_BRAND_PROFILE || DEFAULT_PROFILE_NAME);
+  }
+
+  createProfile(input: BrandProfileInput): BrandProfile {
+    if (!input.name || !/^[a-zA-Z0-9_-]+$/.test(input.name)) {
+      throw new BadRequestException('Brand profile name is required and may only contain letters, numbers, "-" and "_"');
+    }
+    if (this.store.get(input.name)) {
+      throw new ConflictException(`Brand profile "${input.name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const profile: BrandProfile = {
+      name: input.name,
+      description: input.description,
+      tone: input.tone || 'casual',
+      targetAudience: input.targetAudience || 'social media users',
+      maxHashtags: input.maxHashtags ?? 15,
+      maxCaptionLength: input.maxCaptionLength ?? 300,
+      includeCallToAction: input.includeCallToAction ?? true,
+      exampleCaptions: input.exampleCaptions || [],
+      bannedWords: input.bannedWords || [],
+      requiredHashtags: input.requiredHashtags || [],
+      emojiPolicy: input.emojiPolicy || 'moderate',
+      signature: input.signature,
+      approvalChannels: input.approvalChannels,
+      brandColor: input.brandColor,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.validate(profile);
+
+    this.store.set(profile.name, profile);
+    this.logger.log(`🎨 Brand profile "${profile.name}" created`);
+    return profile;
+  }
+
+  updateProfile(name: string, input: BrandProfileInput): BrandProfile {
+    const profile = this.getProfile(name);
+    const updated: BrandProfile = {
+      ...profile,
+      ...pickDefinedFields(input, EDITABLE_FIELDS),
+      updatedAt: new Date().toISOString(),
+    };
+    this.validate(updated);
+
+    this.store.set(name, updated);
+    this.logger.log(`🎨 Brand profile "${name}" updated`);
+    return updated;
+  }
+
+  deleteProfile(name: string): void {
+    if (name === DEFAULT_PROFILE_NAME || name === process.env.DEFAULT_BRAND_PROFILE) {
+      throw new BadRequestException(`Brand profile "${name}" is the default profile and can't be deleted`);
+    }
+    if (!this.store.delete(name)) {
+      throw new NotFoundException(`Brand profile "${name}" not found`);
+    }
+    this.logger.log(`🗑️ Brand profile "${name}" deleted`);
+  }
+
+  /**
+   * Caption generation options for a profile
+   */
+  toCaptionOptions(profile: BrandProfile): CaptionOptions {
+    return {
+      tone: profile.tone,
+      targetAudience: profile.targetAudience,
+      maxHashtags: profile.maxHashtags,
+      maxCaptionLength: profile.maxCaptionLength,
+      includeCallToAction: profile.includeCallToAction,
+      brandVoice: profile,
+    };
+  }
+
+  private validate(profile: BrandProfile): void {
+    if (!CAPTION_TONES.includes(profile.tone)) {
+      throw new BadRequestException(`Invalid tone. Expected one of: ${CAPTION_TONES.join(', ')}`);
+    }
+    if (!EMOJI_POLICIES.includes(profile.emojiPolicy)) {
+      throw new BadRequestException(`Invalid emojiPolicy. Expected one of: ${EMOJI_POLICIES.join(', ')}`);
+    }
+    if (!(profile.maxHashtags >= 0 && profile.maxHashtags <= 30)) {
+      throw new BadRequestException('maxHashtags must be between 0 and 30');
+    }
+    if (!(profile.maxCaptionLength > 0 && profile.maxCaptionLength <= 2200)) {
+      throw new BadRequestException('maxCaptionLength must be between 1 and 2200');
+    }
+    if (profile.approvalChannels !== undefined
+      && !(Array.isArray(profile.approvalChannels) && profile.approvalChannels.every(channel => APPROVAL_CHANNEL_NAMES.includes(channel)))) {
+      throw new BadRequestException(`approvalChannels must be an array of: ${APPROVAL_CHANNEL_NAMES.join(', ')}`);
+    }
+    if (profile.brandColor !== undefined && !isHexColor(profile.brandColor)) {
+      throw new BadRequestException('brandColor must be a hex color such as #1a2b3c');
+    }
+    for (const field of ['exampleCaptions', 'bannedWords', 'requiredHashtags'] as const) {
+      if (!Array.isArray(profile[field])) {
+        throw new BadRequestException(`${field} must be an array`);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
+import { BrandProfileService } from './brand-profile.service';
+import { EmojiPolicy } from '../util/caption-validator';
+import { ApprovalChannelName } from '../chat/chat-channels';
+
+export class BrandProfileDto {
+  name?: string;
+  description?: string;
+  tone?: 'casual' | 'professional' | 'funny' | 'inspirational' | 'trendy' | 'educational';
+  targetAudience?: string;
+  maxHashtags?: number;
+  maxCaptionLength?: number;
+  includeCallToAction?: boolean;
+  exampleCaptions?: string[];
+  bannedWords?: string[];
+  requiredHashtags?: string[];
+  emojiPolicy?: EmojiPolicy;
+  signature?: string;
+  approvalChannels?: ApprovalChannelName[];
+  brandColor?: string;
+}
+
+@Controller('brands')
+export class BrandController {
+  constructor(private readonly brandProfileService: BrandProfileService) {}
+
+  @Get()
+  listProfiles() {
+    const profiles = this.brandProfileService.listProfiles();
+    return {
+      profiles,
+      count: profiles.length
+    };
+  }
+
+  @Get(':name')
+  getProfile(@Param('name') name: string) {
+    return this.brandProfileService.getProfile(name);
+  }
+
+  @Post()
+  createProfile(@Body() profileDto: BrandProfileDto) {
+    return this.brandProfileService.createProfile(profileDto);
+  }
+
+  @Put(':name')
+  updateProfile(@Param('name') name: string, @Body() profileDto: BrandProfileDto) {
+    return this.brandProfileService.updateProfile(name, profileDto);
+  }
+
+  @Delete(':name')
+  deleteProfile(@Param('name') name: string) {
+    this.brandProfileService.deleteProfile(name);
+    return {
+      message: 'Brand profile deleted successfully',
+      name
+    };
+  }
+}
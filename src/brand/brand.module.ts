@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { BrandController } from './brand.controller';
+import { BrandProfileService } from './brand-profile.service';
+
+@Module({
+  controllers: [BrandController],
+  providers: [BrandProfileService],
+  exports: [BrandProfileService],
+})
+export class BrandModule {}
@@ -0,0 +1,115 @@
+import { Controller, Post, Body, Req, Headers, HttpCode, HttpStatus, Logger, UnauthorizedException, BadRequestException, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+import { ChatApprovalService } from './chat-approval.service';
+import { ContentApprovalService, ContentDecisionOutcome } from '../email/content-approval.service';
+
+/**
+ * Webhooks for approve/reject button clicks. Each one is acknowledged straight away (the chat
+ * services time out after a few seconds) and the decision, which may upload to Instagram, runs
+ * afterwards and then updates the original message.
+ */
+@Controller('chat')
+export class ChatApprovalController {
+  private readonly logger = new Logger(ChatApprovalController.name);
+
+  constructor(
+    private readonly chatApprovalService: ChatApprovalService,
+    private readonly contentApprovalService: ContentApprovalService,
+  ) {}
+
+  // Slack sends block actions form-encoded, with the JSON in a "payload" field
+  @Post('slack/interactions')
+  @HttpCode(HttpStatus.OK)
+  handleSlackInteraction(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-slack-request-timestamp') timestamp: string,
+    @Headers('x-slack-signature') signature: string,
+    @Body() body: { payload?: string },
+  ) {
+    if (!this.chatApprovalService.slack.verifyRequest(timestamp, signature, req.rawBody)) {
+      throw new UnauthorizedException('Invalid Slack signature');
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body.payload || '{}');
+    } catch {
+      payload = undefined;
+    }
+    if (!payload || typeof payload !== 'object') {
+      throw new BadRequestException('Invalid Slack payload');
+    }
+    const action = payload.type === 'block_actions' ? payload.actions?.[0] : undefined;
+    if (action) {
+      const user = payload.user?.username || payload.user?.name || payload.user?.id || 'Slack user';
+      this.decide('slack', action.value, user, outcome =>
+        this.chatApprovalService.slack.showOutcome(payload.response_url, payload.message?.blocks, outcome));
+    }
+    return '';
+  }
+
+  @Post('discord/interactions')
+  @HttpCode(HttpStatus.OK)
+  handleDiscordInteraction(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-signature-timestamp') timestamp: string,
+    @Headers('x-signature-ed25519') signature: string,
+    @Body() interaction: any,
+  ) {
+    if (!this.chatApprovalService.discord.verifyRequest(timestamp, signature, req.rawBody)) {
+      throw new UnauthorizedException('Invalid Discord signature');
+    }
+
+    if (interaction.type === 1) {
+      return { type: 1 }; // PONG for the endpoint check
+    }
+    if (interaction.type === 3) {
+      const user = interaction.member?.user?.username || interaction.user?.username || 'Discord user';
+      this.decide('discord', interaction.data?.custom_id, user, outcome =>
+        this.chatApprovalService.discord.showOutcome(interaction.application_id, interaction.token, interaction.message, outcome));
+      return { type: 6 }; // Deferred message update
+    }
+    return { type: 4, data: { content: 'Unsupported interaction', flags: 64 } };
+  }
+
+  @Post('telegram/webhook')
+  @HttpCode(HttpStatus.OK)
+  handleTelegramUpdate(
+    @Headers('x-telegram-bot-api-secret-token') secretToken: string,
+    @Body() update: any,
+  ) {
+    if (!this.chatApprovalService.telegram.verifyRequest(secretToken)) {
+      throw new UnauthorizedException('Invalid Telegram secret token');
+    }
+
+    const query = update.callback_query;
+    if (query) {
+      const user = query.from?.username || query.from?.first_name || 'Telegram user';
+      this.chatApprovalService.telegram.acknowledge(query.id, 'Working on it…').catch(error => {
+        this.logger.warn(`⚠️ Telegram callback acknowledgement failed: ${error.message}`);
+      });
+      this.decide('telegram', query.data, user, outcome =>
+        this.chatApprovalService.telegram.showOutcome(query.message?.chat?.id, query.message?.message_id, query.message?.text, outcome));
+    }
+    return {};
+  }
+
+  /**
+   * Run the click through the same decision logic as the email links, then report back
+   */
+  private decide(channel: string, actionId: string, user: string, showOutcome: (outcome: string) => Promise<void>): void {
+    const token = this.chatApprovalService.resolveAction(actionId);
+    const decision: Promise<ContentDecisionOutcome> = token
+      ? this.contentApprovalService.decideWithToken(token)
+      : Promise.resolve({ valid: false, reason: 'This button is no longer valid' });
+
+    decision
+      .then(outcome => {
+        this.logger.log(`💬 ${channel} action from ${user}: ${outcome.valid === true ? outcome.action : outcome.reason}`);
+        return showOutcome(this.chatApprovalService.describeOutcome(outcome, user));
+      })
+      .catch(error => {
+        this.logger.error(`❌ Handling ${channel} action from ${user} failed: ${error.message}`);
+      });
+  }
+}
@@ -0,0 +1,209 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { JsonFileStore } from '../util/json-store';
+import { PendingContentService, PendingContent } from '../email/pending-content.service';
+import { ContentDecisionOutcome } from '../email/content-approval.service';
+import { BrandProfileService } from '../brand/brand-profile.service';
+import {
+  ApprovalChannelName,
+  APPROVAL_CHANNEL_NAMES,
+  ChatApprovalButton,
+  ChatChannel,
+  ChatChannelName,
+  CHAT_CHANNEL_NAMES,
+  DiscordChatChannel,
+  SlackChatChannel,
+  TelegramChatChannel,
+} from './chat-channels';
+
+export interface ChannelDelivery {
+  channel: ApprovalChannelName;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Button payloads are size-limited (Discord 100 chars, Telegram 64 bytes), so buttons carry
+ * a short random id that maps to the signed action token
+ */
+interface ChatAction {
+  actionId: string;
+  token: string;
+  contentId: string;
+  expiresAt: string;
+}
+
+// Mappings are kept a while past the deadline so late clicks get "expired" rather than "unknown"
+const ACTION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Posts content waiting for approval to Slack, Discord and Telegram. Button clicks are turned
+ * back into the same signed action tokens the email links use.
+ */
+@Injectable()
+export class ChatApprovalService {
+  private readonly logger = new Logger(ChatApprovalService.name);
+  private readonly store = new JsonFileStore<ChatAction>('chat-actions');
+  readonly slack = new SlackChatChannel();
+  readonly discord = new DiscordChatChannel();
+  readonly telegram = new TelegramChatChannel();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pendingContentService: PendingContentService,
+    private readonly brandProfileService: BrandProfileService,
+  ) {}
+
+  /**
+   * Channels for a run: the workflow's own list, else the brand profile's, else APPROVAL_CHANNELS (default "email")
+   */
+  resolveChannels(channels?: ApprovalChannelName[], brandProfile?: string): ApprovalChannelName[] {
+    if (channels?.length) {
+      this.validateChannels(channels);
+      return [...new Set(channels)];
+    }
+    const profileChannels = this.brandProfileService.resolveProfile(brandProfile).approvalChannels;
+    if (profileChannels?.length) {
+      return [...new Set(profileChannels)];
+    }
+    const configured = (this.configService.get<string>('APPROVAL_CHANNELS') || 'email')
+      .split(',')
+      .map(channel => channel.trim())
+      .filter(Boolean) as ApprovalChannelName[];
+    this.validateChannels(configured);
+    return [...new Set(configured)];
+  }
+
+  validateChannels(channels?: ApprovalChannelName[]): void {
+    if (channels === undefined) {
+      return;
+    }
+    if (!Array.isArray(channels)) {
+      throw new BadRequestException('approvalChannels must be an array');
+    }
+    const unknown = channels.filter(channel => !APPROVAL_CHANNEL_NAMES.includes(channel));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown approval channel(s): ${unknown.join(', ')}. Expected: ${APPROVAL_CHANNEL_NAMES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Post the content to every chat channel in the list (email is skipped here). A failing
+   * channel doesn't stop the others; each result is reported back.
+   */
+  async postForApproval(content: PendingContent, channels: ApprovalChannelName[]): Promise<ChannelDelivery[]> {
+    this.pruneActions();
+    const deliveries: ChannelDelivery[] = [];
+
+    for (const name of channels.filter((channel): channel is ChatChannelName => CHAT_CHANNEL_NAMES.includes(channel as ChatChannelName))) {
+      const channel = this.getChannel(name);
+      if (!channel.isConfigured()) {
+        this.logger.warn(`⚠️ ${name} approval channel is not configured - skipping`);
+        deliveries.push({ channel: name, success: false, error: `${name} is not configured` });
+        continue;
+      }
+
+      try {
+        const { messageId } = await channel.post({
+          contentId: content.contentId,
+          videoUrl: content.videoUrl,
+          title: '🎬 New content ready for review',
+          text: this.describeContent(content),
+          buttons: this.createButtons(content),
+        });
+        this.logger.log(`💬 Content ${content.contentId} posted to ${name}${messageId ? ` (${messageId})` : ''}`);
+        deliveries.push({ channel: name, success: true, messageId });
+      } catch (error) {
+        this.logger.error(`❌ Posting content ${content.contentId} to ${name} failed: ${error.message}`);
+        deliveries.push({ channel: name, success: false, error: error.message });
+      }
+    }
+    return deliveries;
+  }
+
+  /**
+   * Signed action token behind a button, or null for unknown ids
+   */
+  resolveAction(actionId: string): string | null {
+    if (!actionId || !/^[A-Za-z0-9_-]+$/.test(actionId)) {
+      return null;
+    }
+    return this.store.get(actionId)?.token || null;
+  }
+
+  /**
+   * One-line result shown in place of the buttons once a click has been handled
+   */
+  describeOutcome(outcome: ContentDecisionOutcome, user: string): string {
+    if (outcome.valid === false) {
+      return `⚠️ ${outcome.reason}`;
+    }
+    if (outcome.action === 'reject') {
+      return `❌ Rejected by ${user}`;
+    }
+    if (outcome.content.status === 'pending') {
+      return `🗳️ Approval from ${user} recorded, waiting for more approvers`;
+    }
+    const option = outcome.content.chosenVariant !== undefined ? ` (option ${outcome.content.chosenVariant + 1})` : '';
+    const instagram = outcome.instagramResult
+      ? ` - ${outcome.instagramResult.success ? '📱' : '⚠️'} ${outcome.instagramResult.message}`
+      : '';
+    return `✅ Approved by ${user}${option}${instagram}`;
+  }
+
+  private getChannel(name: ChatChannelName): ChatChannel {
+    return { slack: this.slack, discord: this.discord, telegram: this.telegram }[name];
+  }
+
+  private describeContent(content: PendingContent): string {
+    const lines = content.variants
+      ? content.variants.map(variant => `Option ${variant.index + 1}${variant.tone ? ` (${variant.tone})` : ''}:\n${variant.caption}\n${variant.hashtags.join(' ')}`)
+      : [content.caption, content.hashtags.join(' ')];
+
+    if (content.approvalPolicy) {
+      lines.push(`Approval policy "${content.approvalPolicy.policyName}": approvers decide from their email links, anyone here can reject.`);
+    }
+    lines.push(`Decide by ${new Date(content.expiresAt).toUTCString()}`);
+    return lines.join('\n\n');
+  }
+
+  /**
+   * Approvals under a policy have to come from the assigned approvers' own links, so chat
+   * only offers a veto there - the same rule the dashboard follows
+   */
+  private createButtons(content: PendingContent): ChatApprovalButton[] {
+    const buttons: ChatApprovalButton[] = [];
+    if (!content.approvalPolicy) {
+      const approveTargets = content.variants
+        ? content.variants.map(variant => ({ label: `Approve option ${variant.index + 1}`, variant: variant.index }))
+        : [{ label: 'Approve', variant: undefined }];
+      for (const target of approveTargets) {
+        buttons.push({ label: target.label, style: 'approve', actionId: this.createAction(content, 'approve', target.variant) });
+      }
+    }
+    buttons.push({ label: 'Reject', style: 'reject', actionId: this.createAction(content, 'reject') });
+    return buttons;
+  }
+
+  private createAction(content: PendingContent, action: 'approve' | 'reject', variant?: number): string {
+    const actionId = randomBytes(9).toString('base64url');
+    this.store.set(actionId, {
+      actionId,
+      token: this.pendingContentService.createActionToken(content, action, variant),
+      contentId: content.contentId,
+      expiresAt: content.expiresAt,
+    });
+    return actionId;
+  }
+
+  private pruneActions(): void {
+    const cutoff = Date.now() - ACTION_RETENTION_MS;
+    for (const action of this.store.getAll()) {
+      if (new Date(action.expiresAt).getTime() < cutoff) {
+        this.store.delete(action.actionId);
+      }
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { DiscordChatChannel, SlackChatChannel, TelegramChatChannel } from './chat-channels';
+
+describe('chat channels', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  describe('SlackChatChannel', () => {
+    const channel = new SlackChatChannel();
+    const rawBody = Buffer.from('payload=%7B%22type%22%3A%22block_actions%22%7D');
+    const now = () => String(Math.floor(Date.now() / 1000));
+    const signSlack = (timestamp: string, body: Buffer, secret = 'signing-secret') =>
+      `v0=${createHmac('sha256', secret).update(`v0:${timestamp}:${body.toString('utf8')}`).digest('hex')}`;
+
+    beforeEach(() => {
+      process.env.SLACK_SIGNING_SECRET = 'signing-secret';
+    });
+
+    it('accepts a request signed with the signing secret', () => {
+      const timestamp = now();
+      expect(channel.verifyRequest(timestamp, signSlack(timestamp, rawBody), rawBody)).toBe(true);
+    });
+
+    it('rejects a wrong secret, a changed body and a missing signature', () => {
+      const timestamp = now();
+      expect(channel.verifyRequest(timestamp, signSlack(timestamp, rawBody, 'other-secret'), rawBody)).toBe(false);
+      expect(channel.verifyRequest(timestamp, signSlack(timestamp, rawBody), Buffer.from('payload=%7B%7D'))).toBe(false);
+      expect(channel.verifyRequest(timestamp, undefined, rawBody)).toBe(false);
+    });
+
+    it('rejects requests older than five minutes', () => {
+      const timestamp = String(Math.floor(Date.now() / 1000) - 6 * 60);
+      expect(channel.verifyRequest(timestamp, signSlack(timestamp, rawBody), rawBody)).toBe(false);
+    });
+
+    it('rejects everything when no signing secret is configured', () => {
+      delete process.env.SLACK_SIGNING_SECRET;
+      const timestamp = now();
+      expect(channel.verifyRequest(timestamp, signSlack(timestamp, rawBody), rawBody)).toBe(false);
+    });
+
+    it('keeps the section text within Slack\'s 3000 character limit', async () => {
+      process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+      process.env.SLACK_CHANNEL_ID = 'C123';
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ ok: true, ts: '1.2' }), { headers: { 'Content-Type': 'application/json' } }),
+      );
+
+      await channel.post({
+        contentId: 'content-1',
+        videoUrl: 'https://example.com/video.mp4',
+        title: 'New content to review',
+        text: 'Fish & chips '.repeat(400),
+        buttons: [],
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+      const section = body.blocks.find(block => block.type === 'section');
+      expect(section.text.text.length).toBeLessThanOrEqual(3000);
+      expect(section.text.text).toMatch(/…\n\n<https:\/\/example\.com\/video\.mp4\|▶️ Watch the video>$/);
+      expect(section.text.text).not.toMatch(/&[a-z]*…/);
+    });
+  });
+
+  describe('DiscordChatChannel', () => {
+    const channel = new DiscordChatChannel();
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const rawBody = Buffer.from('{"type":1}');
+    const timestamp = '1700000000';
+    const signature = sign(null, Buffer.concat([Buffer.from(timestamp), rawBody]), privateKey).toString('hex');
+
+    beforeEach(() => {
+      // The application page shows the raw 32-byte key, which is the tail of the SPKI encoding
+      process.env.DISCORD_PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('hex');
+    });
+
+    it('accepts a request signed with the application key', () => {
+      expect(channel.verifyRequest(timestamp, signature, rawBody)).toBe(true);
+    });
+
+    it('rejects a changed body or timestamp', () => {
+      expect(channel.verifyRequest(timestamp, signature, Buffer.from('{"type":3}'))).toBe(false);
+      expect(channel.verifyRequest('1700000001', signature, rawBody)).toBe(false);
+    });
+
+    it('rejects a request signed with another key', () => {
+      const other = generateKeyPairSync('ed25519').privateKey;
+      const otherSignature = sign(null, Buffer.concat([Buffer.from(timestamp), rawBody]), other).toString('hex');
+      expect(channel.verifyRequest(timestamp, otherSignature, rawBody)).toBe(false);
+    });
+
+    it('rejects malformed signatures and keys instead of throwing', () => {
+      expect(channel.verifyRequest(timestamp, 'not-hex', rawBody)).toBe(false);
+      process.env.DISCORD_PUBLIC_KEY = 'abcd';
+      expect(channel.verifyRequest(timestamp, signature, rawBody)).toBe(false);
+    });
+  });
+
+  describe('TelegramChatChannel', () => {
+    const channel = new TelegramChatChannel();
+
+    it('accepts only the configured webhook secret', () => {
+      process.env.TELEGRAM_WEBHOOK_SECRET = 'webhook-secret';
+      expect(channel.verifyRequest('webhook-secret')).toBe(true);
+      expect(channel.verifyRequest('webhook-secreT')).toBe(false);
+      expect(channel.verifyRequest(undefined)).toBe(false);
+    });
+
+    it('rejects everything when no secret is configured', () => {
+      delete process.env.TELEGRAM_WEBHOOK_SECRET;
+      expect(channel.verifyRequest('')).toBe(false);
+      expect(channel.verifyRequest('anything')).toBe(false);
+    });
+  });
+});
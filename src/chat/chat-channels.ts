@@ -0,0 +1,305 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto';
+
+export type ChatChannelName = 'slack' | 'discord' | 'telegram';
+export type ApprovalChannelName = 'email' | ChatChannelName;
+
+export const CHAT_CHANNEL_NAMES: ChatChannelName[] = ['slack', 'discord', 'telegram'];
+export const APPROVAL_CHANNEL_NAMES: ApprovalChannelName[] = ['email', ...CHAT_CHANNEL_NAMES];
+
+export interface ChatApprovalButton {
+  label: string;
+  style: 'approve' | 'reject';
+  actionId: string; // Short id resolved back to a signed action token when clicked
+}
+
+export interface ChatApprovalMessage {
+  contentId: string;
+  videoUrl: string;
+  title: string;
+  text: string; // Caption, hashtags, variants and deadline as plain text
+  buttons: ChatApprovalButton[];
+}
+
+export interface ChatPostResult {
+  messageId?: string;
+}
+
+/**
+ * A chat service that can post content for review with approve/reject buttons. Clicks come
+ * back through the channel's webhook in ChatApprovalController.
+ */
+export interface ChatChannel {
+  readonly name: ChatChannelName;
+  isConfigured(): boolean;
+  post(message: ChatApprovalMessage): Promise<ChatPostResult>;
+}
+
+// Interaction requests older than this are treated as replays
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+// Slack rejects section blocks whose text is longer than this
+const SLACK_SECTION_MAX_LENGTH = 3000;
+
+/**
+ * Posts with chat.postMessage as a bot; clicks arrive at POST /chat/slack/interactions
+ */
+export class SlackChatChannel implements ChatChannel {
+  readonly name: ChatChannelName = 'slack';
+
+  isConfigured(): boolean {
+    return !!process.env.SLACK_BOT_TOKEN && !!process.env.SLACK_CHANNEL_ID;
+  }
+
+  async post(message: ChatApprovalMessage): Promise<ChatPostResult> {
+    const videoLink = `\n\n<${message.videoUrl}|▶️ Watch the video>`;
+    const text = truncateSlack(escapeSlack(message.text), SLACK_SECTION_MAX_LENGTH - videoLink.length);
+    const result = await this.callApi('chat.postMessage', {
+      channel: process.env.SLACK_CHANNEL_ID,
+      text: `${message.title}: ${message.videoUrl}`, // Notification fallback
+      unfurl_media: true,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: message.title } },
+        { type: 'section', text: { type: 'mrkdwn', text: `${text}${videoLink}` } },
+        {
+          type: 'actions',
+          block_id: `content-${message.contentId}`,
+          elements: message.buttons.map(button => ({
+            type: 'button',
+            text: { type: 'plain_text', text: button.label },
+            style: button.style === 'approve' ? 'primary' : 'danger',
+            action_id: button.actionId,
+            value: button.actionId,
+          })),
+        },
+      ],
+    });
+    return { messageId: result.ts };
+  }
+
+  /**
+   * Slack signs `v0:<timestamp>:<raw body>` with the app's signing secret
+   */
+  verifyRequest(timestamp: string, signature: string, rawBody: Buffer): boolean {
+    const secret = process.env.SLACK_SIGNING_SECRET;
+    if (!secret || !timestamp || !signature || !rawBody) {
+      return false;
+    }
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_REQUEST_AGE_SECONDS) {
+      return false;
+    }
+    const expected = `v0=${createHmac('sha256', secret).update(`v0:${timestamp}:${rawBody.toString('utf8')}`).digest('hex')}`;
+    return safeEqual(expected, signature);
+  }
+
+  /**
+   * Replace the buttons on the original message with the outcome
+   */
+  async showOutcome(responseUrl: string, originalBlocks: any[], outcome: string): Promise<void> {
+    const blocks = (originalBlocks || []).filter(block => block.type !== 'actions');
+    const response = await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        replace_original: true,
+        text: outcome,
+        blocks: [...blocks, { type: 'context', elements: [{ type: 'mrkdwn', text: escapeSlack(outcome) }] }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Slack response_url error ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  private async callApi(method: string, body: object): Promise<any> {
+    const response = await fetch(`https://slack.com/api/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok || !result.ok) {
+      throw new Error(`Slack API error ${response.status}: ${result.error || 'unknown error'}`);
+    }
+    return result;
+  }
+}
+
+// DER prefix that wraps a raw 32-byte Ed25519 key as SPKI
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Posts as a bot user; clicks arrive at POST /chat/discord/interactions, which has to be set
+ * as the application's Interactions Endpoint URL
+ */
+export class DiscordChatChannel implements ChatChannel {
+  readonly name: ChatChannelName = 'discord';
+
+  isConfigured(): boolean {
+    return !!process.env.DISCORD_BOT_TOKEN && !!process.env.DISCORD_CHANNEL_ID;
+  }
+
+  async post(message: ChatApprovalMessage): Promise<ChatPostResult> {
+    // Discord allows at most five buttons per row
+    const rows = [];
+    for (let i = 0; i < message.buttons.length; i += 5) {
+      rows.push({
+        type: 1,
+        components: message.buttons.slice(i, i + 5).map(button => ({
+          type: 2,
+          style: button.style === 'approve' ? 3 : 4, // Success / Danger
+          label: button.label,
+          custom_id: button.actionId,
+        })),
+      });
+    }
+
+    const result = await this.callApi('POST', `/channels/${process.env.DISCORD_CHANNEL_ID}/messages`, {
+      content: message.videoUrl, // A bare link so Discord embeds the video player
+      embeds: [{ title: message.title, description: message.text.slice(0, 4096), url: message.videoUrl }],
+      components: rows,
+    });
+    return { messageId: result.id };
+  }
+
+  /**
+   * Discord signs `<timestamp><raw body>` with Ed25519; the public key is shown on the application page
+   */
+  verifyRequest(timestamp: string, signature: string, rawBody: Buffer): boolean {
+    const publicKey = process.env.DISCORD_PUBLIC_KEY;
+    if (!publicKey || !timestamp || !signature || !rawBody) {
+      return false;
+    }
+    try {
+      const key = createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+        format: 'der',
+        type: 'spki',
+      });
+      return verify(null, Buffer.concat([Buffer.from(timestamp), rawBody]), key, Buffer.from(signature, 'hex'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Edit the message an interaction came from (after a deferred update) to show the outcome
+   */
+  async showOutcome(applicationId: string, interactionToken: string, originalMessage: any, outcome: string): Promise<void> {
+    const embeds = (originalMessage?.embeds || []).map(embed => ({ ...embed, footer: { text: outcome } }));
+    await this.callApi('PATCH', `/webhooks/${applicationId}/${interactionToken}/messages/@original`, {
+      embeds,
+      components: [],
+    });
+  }
+
+  private async callApi(method: string, endpoint: string, body: object): Promise<any> {
+    const response = await fetch(`https://discord.com/api/v10${endpoint}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bot ${process.env.DISCORD_BOT_TOKEN}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const responseText = await response.text();
+    if (!response.ok) {
+      throw new Error(`Discord API error ${response.status}: ${responseText}`);
+    }
+    return responseText ? JSON.parse(responseText) : {};
+  }
+}
+
+/**
+ * Posts through the Bot API; clicks arrive at POST /chat/telegram/webhook once it is registered
+ * with setWebhook (including TELEGRAM_WEBHOOK_SECRET as secret_token)
+ */
+export class TelegramChatChannel implements ChatChannel {
+  readonly name: ChatChannelName = 'telegram';
+
+  isConfigured(): boolean {
+    return !!process.env.TELEGRAM_BOT_TOKEN && !!process.env.TELEGRAM_CHAT_ID;
+  }
+
+  async post(message: ChatApprovalMessage): Promise<ChatPostResult> {
+    const chatId = process.env.TELEGRAM_CHAT_ID;
+    let text = `${message.title}\n\n${message.text}`;
+
+    // Telegram fetches the video itself; if it can't (size limit, private URL) the link goes in the text
+    try {
+      await this.callApi('sendVideo', { chat_id: chatId, video: message.videoUrl, supports_streaming: true });
+    } catch {
+      text += `\n\n▶️ ${message.videoUrl}`;
+    }
+
+    const result = await this.callApi('sendMessage', {
+      chat_id: chatId,
+      text: text.slice(0, 4096),
+      reply_markup: {
+        inline_keyboard: message.buttons.map(button => [{
+          text: `${button.style === 'approve' ? '✅' : '❌'} ${button.label}`,
+          callback_data: button.actionId,
+        }]),
+      },
+    });
+    return { messageId: String(result.message_id) };
+  }
+
+  /**
+   * Telegram echoes the secret_token given to setWebhook in a header on every update
+   */
+  verifyRequest(secretToken: string): boolean {
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+    return !!secret && !!secretToken && safeEqual(secret, secretToken);
+  }
+
+  async acknowledge(callbackQueryId: string, text: string): Promise<void> {
+    await this.callApi('answerCallbackQuery', { callback_query_id: callbackQueryId, text });
+  }
+
+  /**
+   * Append the outcome to the message and drop its keyboard
+   */
+  async showOutcome(chatId: number | string, messageId: number, originalText: string, outcome: string): Promise<void> {
+    await this.callApi('editMessageText', {
+      chat_id: chatId,
+      message_id: messageId,
+      text: `${originalText || ''}\n\n${outcome}`.slice(0, 4096),
+    });
+  }
+
+  private async callApi(method: string, body: object): Promise<any> {
+    const response = await fetch(`https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok || !result.ok) {
+      throw new Error(`Telegram API error ${response.status}: ${result.description || 'unknown error'}`);
+    }
+    return result.result;
+  }
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Shorten escaped mrkdwn without cutting an entity such as `&amp;` in half
+ */
+function truncateSlack(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength - 1).replace(/&[a-z]*$/, '')}…`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
@@ -0,0 +1,13 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ChatApprovalController } from './chat-approval.controller';
+import { ChatApprovalService } from './chat-approval.service';
+import { EmailApprovalModule } from '../email/email.module';
+import { BrandModule } from '../brand/brand.module';
+
+@Module({
+  imports: [forwardRef(() => EmailApprovalModule), BrandModule],
+  controllers: [ChatApprovalController],
+  providers: [ChatApprovalService],
+  exports: [ChatApprovalService],
+})
+export class ChatApprovalModule {}
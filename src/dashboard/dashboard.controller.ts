@@ -0,0 +1,248 @@
+import { Controller, Get, Post, Body, Query, Req, Res, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { PendingContentService, PendingContent } from '../email/pending-content.service';
+import { ContentApprovalService } from '../email/content-approval.service';
+import { InstagramUploadService, ContainerInfo } from '../instagram/instagram-upload.service';
+import { EmailTemplateService } from '../email/email-template.service';
+
+export type DashboardStatus = 'pending' | 'expired' | 'approved' | 'rejected' | 'published';
+
+const DASHBOARD_FILTERS: DashboardStatus[] = ['pending', 'approved', 'rejected', 'published', 'expired'];
+
+export class DashboardActionDto {
+  token: string;
+  status?: string; // Filter to return to after the action
+}
+
+/**
+ * Server-rendered approval dashboard. Protected with HTTP Basic auth (DASHBOARD_USERNAME /
+ * DASHBOARD_PASSWORD); actions post the same signed tokens the email links use.
+ */
+@Controller('dashboard')
+export class DashboardController {
+  private readonly logger = new Logger(DashboardController.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pendingContentService: PendingContentService,
+    private readonly contentApprovalService: ContentApprovalService,
+    private readonly instagramUploadService: InstagramUploadService,
+    private readonly emailTemplateService: EmailTemplateService,
+  ) {}
+
+  @Get()
+  showDashboard(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Query('status') status?: string,
+    @Query('notice') notice?: string,
+  ) {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const filter = DASHBOARD_FILTERS.includes(status as DashboardStatus) ? status as DashboardStatus : undefined;
+    const items = this.pendingContentService.listContent().map(content => {
+      const container = content.instagramResult?.containerId
+        ? this.instagramUploadService.getContainerStatus(content.instagramResult.containerId)
+        : null;
+      return { content, container, status: this.dashboardStatus(content, container) };
+    });
+
+    const counts = DASHBOARD_FILTERS.reduce(
+      (acc, key) => ({ ...acc, [key]: items.filter(item => item.status === key).length }),
+      {} as Record<DashboardStatus, number>
+    );
+    const visible = filter ? items.filter(item => item.status === filter) : items;
+
+    const tabs = [
+      { label: 'All', href: '/dashboard', count: items.length, active: !filter },
+      ...DASHBOARD_FILTERS.map(key => ({
+        label: `${key[0].toUpperCase()}${key.slice(1)}`,
+        href: `/dashboard?status=${key}`,
+        count: counts[key],
+        active: filter === key,
+      })),
+    ];
+
+    const html = this.emailTemplateService.renderPage('page-dashboard', {
+      tabs,
+      notice,
+      filter,
+      items: visible.map(item => this.toCardView(item.content, item.container, item.status)),
+    });
+    res.send(html);
+  }
+
+  /**
+   * Approve/reject from the dashboard - goes through the same token check and upload as email links
+   * POST /dashboard/action
+   */
+  @Post('action')
+  async handleAction(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Body() actionDto: DashboardActionDto,
+  ) {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const outcome = await this.contentApprovalService.decideWithToken(actionDto.token);
+    let notice: string;
+    if (outcome.valid === false) {
+      notice = `⛔ ${outcome.reason}`;
+    } else if (outcome.action === 'reject') {
+      notice = `❌ Content ${outcome.content.contentId} rejected`;
+    } else if (outcome.content.status === 'pending') {
+      notice = `🗳️ Approval recorded for ${outcome.content.contentId}, waiting for more approvers`;
+    } else {
+      notice = `✅ Content ${outcome.content.contentId} approved - Instagram: ${outcome.instagramResult.message}`;
+    }
+
+    this.redirectWithNotice(res, notice, actionDto.status);
+  }
+
+  /**
+   * Queue a fresh run for content that expired without a decision
+   * POST /dashboard/regenerate
+   */
+  @Post('regenerate')
+  regenerate(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Body() actionDto: DashboardActionDto,
+  ) {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const outcome = this.contentApprovalService.regenerateWithToken(actionDto.token);
+    const notice = outcome.valid === false
+      ? `⛔ ${outcome.reason}`
+      : `🔁 Content ${outcome.content.contentId} is being regenerated as job ${outcome.runId}`;
+    this.redirectWithNotice(res, notice, actionDto.status);
+  }
+
+  private redirectWithNotice(res: Response, notice: string, status?: string): void {
+    const returnStatus = DASHBOARD_FILTERS.includes(status as DashboardStatus) ? status : undefined;
+    const query = new URLSearchParams({ ...(returnStatus ? { status: returnStatus } : {}), notice });
+    res.redirect(303, `/dashboard?${query.toString()}`);
+  }
+
+  /**
+   * Data for one content card in the page-dashboard template
+   */
+  private toCardView(content: PendingContent, container: ContainerInfo | null, status: DashboardStatus) {
+    const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : undefined;
+    const actions: Array<{ path: 'action' | 'regenerate'; token: string; label: string; className: string }> = [];
+    if (status === 'pending') {
+      // Content with an approval policy can only be approved through the approvers' own links
+      if (!content.approvers) {
+        const variants = content.variants || [undefined];
+        for (const variant of variants) {
+          actions.push({
+            path: 'action',
+            token: this.pendingContentService.createActionToken(content, 'approve', variant?.index),
+            label: variant ? `✅ Approve Option ${variant.index + 1}` : '✅ Approve',
+            className: 'approve',
+          });
+        }
+      }
+      actions.push({ path: 'action', token: this.pendingContentService.createActionToken(content, 'reject'), label: '❌ Reject', className: 'reject' });
+    } else if (status === 'expired' && content.runId && !content.regeneratedRunId) {
+      actions.push({ path: 'regenerate', token: this.pendingContentService.createActionToken(content, 'reject'), label: '🔁 Regenerate', className: 'approve' });
+    }
+
+    const hasDeadlineNotes = content.remindersSent || content.escalatedAt || content.regeneratedRunId;
+
+    return {
+      contentId: content.contentId,
+      runId: content.runId,
+      videoUrl: content.videoUrl,
+      status,
+      statusLabel: status.toUpperCase(),
+      createdAt: formatDate(content.createdAt),
+      decidedAt: formatDate(content.decidedAt),
+      expiresAt: status === 'pending' ? formatDate(content.expiresAt) : undefined,
+      caption: content.caption,
+      hashtags: content.hashtags.join(' '),
+      variants: content.variants?.map(variant => ({
+        number: variant.index + 1,
+        tone: variant.tone,
+        caption: variant.caption,
+        hashtags: variant.hashtags.join(' '),
+        chosen: content.chosenVariant === variant.index,
+      })),
+      // Variants already show the generated text, so an edit shows the final version; otherwise the original
+      edit: content.edited ? {
+        title: content.variants ? 'Edited before approval' : 'Edited before approval - originally:',
+        caption: content.variants ? content.caption : content.originalCaption,
+        hashtags: (content.variants ? content.hashtags : content.originalHashtags || []).join(' '),
+        notes: content.approverNotes,
+      } : undefined,
+      approvals: content.approvers ? {
+        policyName: content.approvalPolicy.policyName,
+        approved: content.approvers.filter(approver => approver.decision === 'approve').length,
+        required: content.approvalPolicy.required,
+        approvers: content.approvers.map(approver => ({
+          icon: approver.decision === 'approve' ? '✅' : approver.decision === 'reject' ? '❌' : '⏳',
+          email: approver.email,
+          decidedAt: formatDate(approver.decidedAt),
+        })),
+      } : undefined,
+      deadline: hasDeadlineNotes ? {
+        remindersSent: content.remindersSent,
+        escalation: content.escalatedAt ? { to: content.escalateTo, at: formatDate(content.escalatedAt) } : undefined,
+        regeneratedRunId: content.regeneratedRunId,
+      } : undefined,
+      instagram: content.instagramResult ? {
+        message: content.instagramResult.message,
+        container: container ? {
+          containerId: container.containerId,
+          status: container.status,
+          statusCode: container.statusCode,
+          publishedAt: formatDate(container.publishedAt),
+          mediaId: container.mediaId,
+          error: container.error,
+        } : undefined,
+      } : undefined,
+      actions,
+    };
+  }
+
+  private dashboardStatus(content: PendingContent, container: ContainerInfo | null): DashboardStatus {
+    if (container?.status === 'published') {
+      return 'published';
+    }
+    if (this.pendingContentService.isPastDeadline(content)) {
+      return 'expired';
+    }
+    return content.status;
+  }
+
+  /**
+   * HTTP Basic auth check; writes the 401/503 response itself when access is refused
+   */
+  private authorize(req: Request, res: Response): boolean {
+    const password = this.configService.get<string>('DASHBOARD_PASSWORD');
+    if (!password) {
+      this.logger.warn('⚠️ Dashboard requested but DASHBOARD_PASSWORD is not set');
+      res.status(503).send('<h2 style="font-family: Arial, sans-serif; text-align: center; margin-top: 100px;">Dashboard disabled - set DASHBOARD_PASSWORD to enable it.</h2>');
+      return false;
+    }
+
+    const expected = Buffer.from(`${this.configService.get<string>('DASHBOARD_USERNAME') || 'admin'}:${password}`);
+    const header = req.headers.authorization || '';
+    const provided = header.startsWith('Basic ') ? Buffer.from(header.slice(6), 'base64') : Buffer.alloc(0);
+    if (provided.length === expected.length && timingSafeEqual(provided, expected)) {
+      return true;
+    }
+
+    res.setHeader('WWW-Authenticate', 'Basic realm="Content Dashboard"');
+    res.status(401).send('Authentication required');
+    return false;
+  }
+}
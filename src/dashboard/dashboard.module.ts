@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DashboardController } from './dashboard.controller';
+import { EmailApprovalModule } from '../email/email.module';
+import { InstagramModule } from '../instagram/instagram.module';
+
+@Module({
+  imports: [EmailApprovalModule, InstagramModule],
+  controllers: [DashboardController],
+})
+export class DashboardModule {}
@@ -0,0 +1,52 @@
+import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
+import { ApprovalPolicyService, ApprovalMode } from './approval-policy.service';
+
+export class ApprovalPolicyDto {
+  name?: string;
+  approvers?: string[];
+  mode?: ApprovalMode;
+  required?: number;
+  brandProfiles?: string[];
+  imageTags?: string[];
+  ttlHours?: number;
+  reminderHours?: number[];
+  escalateTo?: string;
+}
+
+@Controller('approval-policies')
+export class ApprovalPolicyController {
+  constructor(private readonly approvalPolicyService: ApprovalPolicyService) {}
+
+  @Get()
+  listPolicies() {
+    const policies = this.approvalPolicyService.listPolicies();
+    return {
+      policies,
+      count: policies.length
+    };
+  }
+
+  @Get(':name')
+  getPolicy(@Param('name') name: string) {
+    return this.approvalPolicyService.getPolicy(name);
+  }
+
+  @Post()
+  createPolicy(@Body() policyDto: ApprovalPolicyDto) {
+    return this.approvalPolicyService.createPolicy(policyDto);
+  }
+
+  @Put(':name')
+  updatePolicy(@Param('name') name: string, @Body() policyDto: ApprovalPolicyDto) {
+    return this.approvalPolicyService.updatePolicy(name, policyDto);
+  }
+
+  @Delete(':name')
+  deletePolicy(@Param('name') name: string) {
+    this.approvalPolicyService.deletePolicy(name);
+    return {
+      message: 'Approval policy deleted successfully',
+      name
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalPolicyInput, ApprovalPolicyService } from './approval-policy.service';
+
+describe('ApprovalPolicyService', () => {
+  let dataDir: string;
+  let service: ApprovalPolicyService;
+
+  const approvers = ['alex@example.com', 'sam@example.com', 'kim@example.com'];
+  const createPolicy = (input: ApprovalPolicyInput) => service.createPolicy({ approvers, ...input });
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-policies-'));
+    process.env.DATA_DIR = dataDir;
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ApprovalPolicyService,
+        { provide: ConfigService, useValue: new ConfigService({ DEFAULT_APPROVAL_POLICY: 'fallback' }) },
+      ],
+    }).compile();
+    service = moduleRef.get(ApprovalPolicyService);
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('requires one approval for "any", all of them for "all" and N for "quorum"', () => {
+    expect(service.toApprovalRequest(createPolicy({ name: 'any-one', mode: 'any' })).required).toBe(1);
+    expect(service.toApprovalRequest(createPolicy({ name: 'everyone', mode: 'all' })).required).toBe(3);
+    expect(service.toApprovalRequest(createPolicy({ name: 'two-of-three', mode: 'quorum', required: 2 }))).toMatchObject({
+      policyName: 'two-of-three',
+      mode: 'quorum',
+      required: 2,
+      approvers,
+    });
+  });
+
+  it('rejects quorums that can never be met and invalid approvers', () => {
+    expect(() => createPolicy({ name: 'too-many', mode: 'quorum', required: 4 })).toThrow('"quorum" policies need "required" between 1 and 3');
+    expect(() => createPolicy({ name: 'none', mode: 'quorum' })).toThrow('"quorum" policies need');
+    expect(() => createPolicy({ name: 'empty', approvers: [] })).toThrow('At least one approver email is required');
+    expect(() => createPolicy({ name: 'twice', approvers: ['alex@example.com', 'Alex@example.com'] })).toThrow('must be unique');
+    expect(() => createPolicy({ name: 'typo', approvers: ['alex@example'] })).toThrow('Invalid approver email(s): alex@example');
+  });
+
+  it('routes by name, then brand, then image tag, then DEFAULT_APPROVAL_POLICY', () => {
+    createPolicy({ name: 'fallback' });
+    createPolicy({ name: 'brand', brandProfiles: ['acme'] });
+    createPolicy({ name: 'tagged', imageTags: ['food'] });
+
+    expect(service.resolvePolicy({ name: 'tagged', brandProfile: 'acme' }).name).toBe('tagged');
+    expect(service.resolvePolicy({ brandProfile: 'acme', imageTags: ['food'] }).name).toBe('brand');
+    expect(service.resolvePolicy({ brandProfile: 'other', imageTags: ['travel', 'food'] }).name).toBe('tagged');
+    expect(service.resolvePolicy({ brandProfile: 'other' }).name).toBe('fallback');
+    expect(() => service.resolvePolicy({ name: 'missing' })).toThrow('Approval policy "missing" not found');
+  });
+
+  it('resolves no policy when nothing matches and the default does not exist', () => {
+    expect(service.resolvePolicy({ brandProfile: 'acme' })).toBeNull();
+  });
+});
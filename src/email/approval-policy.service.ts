@@ -0,0 +1,201 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JsonFileStore } from '../util/json-store';
+import { pickDefinedFields } from '../util/pick-fields';
+
+export type ApprovalMode = 'any' | 'quorum' | 'all';
+
+export const APPROVAL_MODES: ApprovalMode[] = ['any', 'quorum', 'all'];
+
+export interface ApprovalPolicy {
+  name: string;
+  approvers: string[];
+  mode: ApprovalMode;
+  required?: number; // Approvals needed for "quorum" (N of M)
+  brandProfiles: string[]; // Routes content for these brands to this policy
+  imageTags: string[]; // Routes content whose pool image has one of these tags
+  ttlHours?: number; // Overrides APPROVAL_TOKEN_TTL_HOURS
+  reminderHours?: number[]; // Overrides APPROVAL_REMINDER_HOURS
+  escalateTo?: string; // Backup approver, overrides APPROVAL_ESCALATION_EMAIL
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ApprovalPolicyInput = Partial<Omit<ApprovalPolicy, 'createdAt' | 'updatedAt'>>;
+
+// What PUT /approval-policies/:name may change; the name is the key
+const EDITABLE_FIELDS: Array<keyof ApprovalPolicyInput> = [
+  'approvers', 'mode', 'required', 'brandProfiles', 'imageTags', 'ttlHours', 'reminderHours', 'escalateTo',
+];
+
+/**
+ * What a piece of content needs before it is published: who decides and how many must approve
+ */
+export interface ApprovalRequest {
+  policyName?: string;
+  mode: ApprovalMode;
+  required: number;
+  approvers: string[];
+  ttlHours?: number;
+  reminderHours?: number[];
+  escalateTo?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Named approval policies. Any rejection vetoes; approval needs one, N or all approvers
+ * depending on the mode.
+ */
+@Injectable()
+export class ApprovalPolicyService {
+  private readonly logger = new Logger(ApprovalPolicyService.name);
+  private readonly store = new JsonFileStore<ApprovalPolicy>('approval-policies');
+
+  constructor(private readonly configService: ConfigService) {}
+
+  listPolicies(): ApprovalPolicy[] {
+    return this.store.getAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getPolicy(name: string): ApprovalPolicy {
+    const policy = this.store.get(name);
+    if (!policy) {
+      throw new NotFoundException(`Approval policy "${name}" not found`);
+    }
+    return policy;
+  }
+
+  createPolicy(input: ApprovalPolicyInput): ApprovalPolicy {
+    if (!input.name || !/^[a-zA-Z0-9_-]+$/.test(input.name)) {
+      throw new BadRequestException('Approval policy name is required and may only contain letters, numbers, "-" and "_"');
+    }
+    if (this.store.get(input.name)) {
+      throw new ConflictException(`Approval policy "${input.name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const policy: ApprovalPolicy = {
+      name: input.name,
+      approvers: input.approvers || [],
+      mode: input.mode || 'any',
+      required: input.required,
+      brandProfiles: input.brandProfiles || [],
+      imageTags: input.imageTags || [],
+      ttlHours: input.ttlHours,
+      reminderHours: input.reminderHours,
+      escalateTo: input.escalateTo,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.validate(policy);
+
+    this.store.set(policy.name, policy);
+    this.logger.log(`👥 Approval policy "${policy.name}" created (${this.describe(policy)})`);
+    return policy;
+  }
+
+  updatePolicy(name: string, input: ApprovalPolicyInput): ApprovalPolicy {
+    const policy = this.getPolicy(name);
+    const updated: ApprovalPolicy = {
+      ...policy,
+      ...pickDefinedFields(input, EDITABLE_FIELDS),
+      updatedAt: new Date().toISOString(),
+    };
+    this.validate(updated);
+
+    this.store.set(name, updated);
+    this.logger.log(`👥 Approval policy "${name}" updated (${this.describe(updated)})`);
+    return updated;
+  }
+
+  deletePolicy(name: string): void {
+    if (!this.store.delete(name)) {
+      throw new NotFoundException(`Approval policy "${name}" not found`);
+    }
+    this.logger.log(`🗑️ Approval policy "${name}" deleted`);
+  }
+
+  /**
+   * Policy for a piece of content: the named one, else the first policy routed to the brand,
+   * else the first routed to one of the image's tags, else DEFAULT_APPROVAL_POLICY (if set)
+   */
+  resolvePolicy(route: { name?: string; brandProfile?: string; imageTags?: string[] }): ApprovalPolicy | null {
+    if (route.name) {
+      return this.getPolicy(route.name);
+    }
+
+    const policies = this.listPolicies();
+    const byBrand = route.brandProfile && policies.find(policy => policy.brandProfiles.includes(route.brandProfile));
+    if (byBrand) {
+      return byBrand;
+    }
+
+    const tags = route.imageTags || [];
+    const byTag = policies.find(policy => policy.imageTags.some(tag => tags.includes(tag)));
+    if (byTag) {
+      return byTag;
+    }
+
+    const defaultName = this.configService.get<string>('DEFAULT_APPROVAL_POLICY');
+    return defaultName ? this.store.get(defaultName) : null;
+  }
+
+  toApprovalRequest(policy: ApprovalPolicy): ApprovalRequest {
+    return {
+      policyName: policy.name,
+      mode: policy.mode,
+      required: this.requiredApprovals(policy),
+      approvers: policy.approvers,
+      ttlHours: policy.ttlHours,
+      reminderHours: policy.reminderHours,
+      escalateTo: policy.escalateTo,
+    };
+  }
+
+  private requiredApprovals(policy: ApprovalPolicy): number {
+    switch (policy.mode) {
+      case 'all':
+        return policy.approvers.length;
+      case 'quorum':
+        return policy.required;
+      default:
+        return 1;
+    }
+  }
+
+  private describe(policy: ApprovalPolicy): string {
+    return `${policy.mode}${policy.mode === 'quorum' ? ` ${policy.required} of ${policy.approvers.length}` : ''}, ${policy.approvers.length} approver(s)`;
+  }
+
+  private validate(policy: ApprovalPolicy): void {
+    if (!APPROVAL_MODES.includes(policy.mode)) {
+      throw new BadRequestException(`Invalid approval mode. Expected one of: ${APPROVAL_MODES.join(', ')}`);
+    }
+    if (!Array.isArray(policy.approvers) || policy.approvers.length === 0) {
+      throw new BadRequestException('At least one approver email is required');
+    }
+    const invalid = policy.approvers.filter(email => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Invalid approver email(s): ${invalid.join(', ')}`);
+    }
+    if (new Set(policy.approvers.map(email => email.toLowerCase())).size !== policy.approvers.length) {
+      throw new BadRequestException('Approver emails must be unique');
+    }
+    if (policy.mode === 'quorum' && !(Number.isInteger(policy.required) && policy.required >= 1 && policy.required <= policy.approvers.length)) {
+      throw new BadRequestException(`"quorum" policies need "required" between 1 and ${policy.approvers.length}`);
+    }
+    if (!Array.isArray(policy.brandProfiles) || !Array.isArray(policy.imageTags)) {
+      throw new BadRequestException('brandProfiles and imageTags must be arrays');
+    }
+    if (policy.ttlHours !== undefined && !(typeof policy.ttlHours === 'number' && policy.ttlHours > 0)) {
+      throw new BadRequestException('ttlHours must be a positive number');
+    }
+    if (policy.reminderHours !== undefined && !(Array.isArray(policy.reminderHours) && policy.reminderHours.every(hours => typeof hours === 'number' && hours > 0))) {
+      throw new BadRequestException('reminderHours must be an array of positive numbers');
+    }
+    if (policy.escalateTo !== undefined && !EMAIL_PATTERN.test(policy.escalateTo)) {
+      throw new BadRequestException(`Invalid escalation email: ${policy.escalateTo}`);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalReminderService } from './approval-reminder.service';
+import { ApprovalRequest } from './approval-policy.service';
+import { PendingContentService } from './pending-content.service';
+import { EmailApprovalService } from './email.service';
+import { ContentApprovalService } from './content-approval.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ApprovalReminderService', () => {
+  let dataDir: string;
+  let pendingContentService: PendingContentService;
+  let reminders: ApprovalReminderService;
+  let emailService: { sendReminderEmail: jest.Mock; sendEscalationEmail: jest.Mock };
+  let contentApprovalService: { syncRunApproval: jest.Mock };
+
+  const createContent = (approval: Partial<ApprovalRequest> = {}) => pendingContentService.createPendingContent({
+    videoUrl: 'https://example.com/video.mp4',
+    caption: 'Caption',
+    hashtags: [],
+    recipientEmail: 'alex@example.com',
+    approval: { mode: 'any', required: 1, approvers: ['alex@example.com'], ttlHours: 10, ...approval },
+  });
+  const later = (hours: number) => jest.setSystemTime(Date.now() + hours * HOUR);
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-reminders-'));
+    process.env.DATA_DIR = dataDir;
+    jest.useFakeTimers({ now: new Date('2024-01-15T08:00:00.000Z') });
+    emailService = { sendReminderEmail: jest.fn(), sendEscalationEmail: jest.fn() };
+    contentApprovalService = { syncRunApproval: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ApprovalReminderService,
+        PendingContentService,
+        { provide: ConfigService, useValue: new ConfigService({ APPROVAL_TOKEN_SECRET: 'test-secret' }) },
+        { provide: EmailApprovalService, useValue: emailService },
+        { provide: ContentApprovalService, useValue: contentApprovalService },
+      ],
+    }).compile();
+    pendingContentService = moduleRef.get(PendingContentService);
+    reminders = moduleRef.get(ApprovalReminderService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends each reminder once as it falls due', async () => {
+    const content = createContent({ reminderHours: [2, 6] });
+
+    later(1);
+    await reminders.sweep();
+    expect(emailService.sendReminderEmail).not.toHaveBeenCalled();
+
+    later(2);
+    await reminders.sweep();
+    await reminders.sweep();
+    expect(emailService.sendReminderEmail).toHaveBeenCalledTimes(1);
+    expect(pendingContentService.getContent(content.contentId).remindersSent).toBe(1);
+
+    later(4);
+    await reminders.sweep();
+    expect(emailService.sendReminderEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not email reminders for requests sent only to chat', async () => {
+    const content = createContent({ reminderHours: [2] });
+    const chatOnly = pendingContentService.createPendingContent({
+      videoUrl: 'https://example.com/video.mp4',
+      caption: 'Caption',
+      hashtags: [],
+      recipientEmail: 'alex@example.com',
+      channels: ['slack'],
+      approval: { mode: 'any', required: 1, approvers: ['alex@example.com'], ttlHours: 10, reminderHours: [2] },
+    });
+
+    later(3);
+    await reminders.sweep();
+
+    expect(emailService.sendReminderEmail).toHaveBeenCalledTimes(1);
+    expect(emailService.sendReminderEmail).toHaveBeenCalledWith(expect.objectContaining({ contentId: content.contentId }));
+    expect(pendingContentService.getContent(chatOnly.contentId).remindersSent).toBe(0);
+  });
+
+  it('escalates once at the deadline and expires when the backup approver does not decide either', async () => {
+    const content = createContent({ escalateTo: 'lead@example.com' });
+
+    later(11);
+    await reminders.sweep();
+    const escalated = pendingContentService.getContent(content.contentId);
+    expect(escalated).toMatchObject({ status: 'pending', escalatedAt: new Date().toISOString() });
+    expect(emailService.sendEscalationEmail).toHaveBeenCalledWith(expect.objectContaining({ contentId: content.contentId }));
+
+    await reminders.sweep();
+    expect(emailService.sendEscalationEmail).toHaveBeenCalledTimes(1);
+
+    later(25);
+    await reminders.sweep();
+    expect(pendingContentService.getContent(content.contentId).status).toBe('expired');
+  });
+
+  it('expires content at the deadline when there is nobody to escalate to', async () => {
+    const content = createContent();
+
+    later(11);
+    await reminders.sweep();
+
+    expect(pendingContentService.getContent(content.contentId).status).toBe('expired');
+    expect(contentApprovalService.syncRunApproval).toHaveBeenCalledWith(expect.objectContaining({ status: 'expired' }));
+  });
+
+  it('keeps a decision made while the sweep is busy with other content', async () => {
+    const overdue = createContent({ ttlHours: 2 });
+    jest.setSystemTime(Date.now() + 1);
+    const reminded = createContent({ reminderHours: [1] });
+    // The newer record is handled first; its reminder is still sending when the overdue one gets rejected
+    emailService.sendReminderEmail.mockImplementation(async () => {
+      pendingContentService.markDecided(overdue.contentId, 'reject');
+    });
+
+    later(3);
+    await reminders.sweep();
+
+    expect(emailService.sendReminderEmail).toHaveBeenCalledWith(expect.objectContaining({ contentId: reminded.contentId }));
+    expect(pendingContentService.getContent(overdue.contentId).status).toBe('rejected');
+    expect(contentApprovalService.syncRunApproval).not.toHaveBeenCalled();
+  });
+
+  it('does not escalate or expire content that was decided in the meantime', () => {
+    const content = createContent({ escalateTo: 'lead@example.com' });
+    pendingContentService.markDecided(content.contentId, 'approve', undefined, undefined, 'alex@example.com');
+
+    expect(pendingContentService.escalate(content.contentId)).toBeNull();
+    expect(pendingContentService.markExpired(content.contentId)).toBeNull();
+    expect(pendingContentService.recordRemindersSent(content.contentId, 1)).toBeNull();
+    expect(pendingContentService.getContent(content.contentId)).toMatchObject({ status: 'approved', remindersSent: 0 });
+  });
+});
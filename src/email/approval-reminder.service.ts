@@ -0,0 +1,111 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PendingContentService, PendingContent } from './pending-content.service';
+import { EmailApprovalService } from './email.service';
+import { ContentApprovalService } from './content-approval.service';
+
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 60;
+
+/**
+ * Walks pending content on an interval: sends reminders as they fall due, escalates to the
+ * backup approver once the deadline passes and marks content expired when nobody is left to ask
+ */
+@Injectable()
+export class ApprovalReminderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ApprovalReminderService.name);
+  private readonly intervalMs: number;
+  private sweepTimer: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pendingContentService: PendingContentService,
+    private readonly emailService: EmailApprovalService,
+    private readonly contentApprovalService: ContentApprovalService,
+  ) {
+    const seconds = parseInt(this.configService.get<string>('APPROVAL_SWEEP_INTERVAL_SECONDS') || `${DEFAULT_SWEEP_INTERVAL_SECONDS}`, 10);
+    this.intervalMs = (seconds > 0 ? seconds : DEFAULT_SWEEP_INTERVAL_SECONDS) * 1000;
+  }
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => this.sweep(), this.intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * One pass over pending content. Sends can take a while with retries, so passes never overlap.
+   */
+  async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+    try {
+      const pending = this.pendingContentService.listContent().filter(content => content.status === 'pending');
+      for (const { contentId } of pending) {
+        // Earlier sends take a while, so decisions made since the listing are picked up here
+        const content = this.pendingContentService.getContent(contentId);
+        if (content?.status !== 'pending') {
+          continue;
+        }
+        if (this.pendingContentService.isPastDeadline(content)) {
+          await this.handleDeadline(content);
+        } else {
+          await this.sendDueReminders(content);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`❌ Approval sweep failed: ${error.message}`);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async handleDeadline(content: PendingContent): Promise<void> {
+    const backupAlreadyDecided = content.approvers?.some(entry => entry.email === content.escalateTo && entry.decision);
+    if (content.escalateTo && !content.escalatedAt && !backupAlreadyDecided) {
+      const escalated = this.pendingContentService.escalate(content.contentId);
+      if (!escalated) {
+        return;
+      }
+      this.contentApprovalService.syncRunApproval(escalated);
+      try {
+        await this.emailService.sendEscalationEmail(escalated);
+        return;
+      } catch (error) {
+        this.logger.error(`❌ Escalation email for content ${content.contentId} failed: ${error.message}`);
+      }
+    }
+
+    this.contentApprovalService.syncRunApproval(this.pendingContentService.markExpired(content.contentId));
+  }
+
+  private async sendDueReminders(content: PendingContent): Promise<void> {
+    const createdAt = new Date(content.createdAt).getTime();
+    const due = (content.reminderHours || []).filter(hours => createdAt + hours * 60 * 60 * 1000 <= Date.now()).length;
+    if (due <= (content.remindersSent || 0)) {
+      return;
+    }
+    // Chat messages keep their buttons until the content is decided, so only email gets reminders
+    if (content.channels && !content.channels.includes('email')) {
+      return;
+    }
+
+    // Record first so a failing mail server doesn't get retried every sweep
+    const reminded = this.pendingContentService.recordRemindersSent(content.contentId, due);
+    if (!reminded) {
+      return;
+    }
+    try {
+      await this.emailService.sendReminderEmail(reminded);
+      this.logger.log(`⏰ Reminder ${due}/${content.reminderHours.length} sent for content ${content.contentId}`);
+    } catch (error) {
+      this.logger.error(`❌ Reminder for content ${content.contentId} failed: ${error.message}`);
+    }
+  }
+}
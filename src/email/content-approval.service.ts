@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PendingContentService, PendingContent, ContentAction, ApprovalEdits } from './pending-content.service';
+import { WorkflowService, WORKFLOW_STEPS } from '../workflow/workflow.service';
+import { WorkflowRunService } from '../workflow/workflow-run.service';
+import { WorkflowQueueService } from '../workflow/workflow-queue.service';
+import { EmailApprovalService } from './email.service';
+
+export type ContentDecisionOutcome =
+  | { valid: true; action: ContentAction; content: PendingContent; instagramResult?: PendingContent['instagramResult'] } // content.status stays 'pending' while a policy awaits more approvals
+  | { valid: false; reason: string; expiredContent?: PendingContent };
+
+export type RegenerationOutcome =
+  | { valid: true; content: PendingContent; runId: string }
+  | { valid: false; reason: string };
+
+/**
+ * Applies approve/reject decisions from any channel (email links, dashboard, chat buttons)
+ * so every channel consumes the same signed tokens and triggers the same Instagram upload
+ */
+@Injectable()
+export class ContentApprovalService {
+  private readonly logger = new Logger(ContentApprovalService.name);
+
+  constructor(
+    private readonly pendingContentService: PendingContentService,
+    private readonly workflowService: WorkflowService,
+    private readonly workflowRunService: WorkflowRunService,
+    private readonly workflowQueueService: WorkflowQueueService,
+    private readonly emailService: EmailApprovalService,
+  ) {}
+
+  /**
+   * `edits` (approve only) replace the generated caption/hashtags with the approver's version
+   */
+  async decideWithToken(token: string, edits?: ApprovalEdits): Promise<ContentDecisionOutcome> {
+    const verification = this.pendingContentService.verifyActionToken(token);
+    if (verification.valid === false) {
+      this.logger.warn(`⚠️ Refused content action: ${verification.reason}`);
+      return verification;
+    }
+
+    const contentId = verification.content.contentId;
+    const { action, variant, approver } = verification;
+    const content = this.pendingContentService.markDecided(contentId, action, variant, edits, approver);
+    if (!content) {
+      return { valid: false, reason: 'This content has already been decided' };
+    }
+    this.syncRunApproval(content);
+
+    if (action === 'reject') {
+      this.logger.log(`❌ Content rejected: ${contentId}${approver ? ` by ${approver}` : ''}`);
+      this.notifyResult(content);
+      return { valid: true, action, content };
+    }
+
+    // Approval recorded, but the policy still needs more approvers before publishing
+    if (content.status === 'pending') {
+      return { valid: true, action, content };
+    }
+
+    this.logger.log(`✅ Content approved: ${contentId}${content.chosenVariant !== undefined ? ` (option ${content.chosenVariant + 1})` : ''}${content.edited ? ' with edits' : ''}`);
+
+    // Trigger Instagram upload when content is approved
+    let instagramResult: PendingContent['instagramResult'];
+    try {
+      this.logger.log(`🎬 Starting Instagram upload for approved content...`);
+      instagramResult = await this.workflowService.handleEmailApprovalWithInstagram(
+        content.videoUrl,
+        content.caption,
+        content.hashtags
+      );
+
+      if (instagramResult.success) {
+        this.logger.log(`✅ Instagram container created: ${instagramResult.containerId}`);
+      } else {
+        this.logger.error(`❌ Instagram upload failed: ${instagramResult.message}`);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Error during Instagram upload: ${error.message}`);
+      instagramResult = {
+        success: false,
+        message: `Upload error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+    this.pendingContentService.recordInstagramResult(contentId, instagramResult);
+    this.notifyResult({ ...content, instagramResult });
+
+    return { valid: true, action, content: { ...content, instagramResult }, instagramResult };
+  }
+
+  /**
+   * Queue a fresh run for content that expired undecided, reusing the source run's converted
+   * image. Any link sent for the content authorizes it once the deadline has passed.
+   */
+  regenerateWithToken(token: string): RegenerationOutcome {
+    const verification = this.pendingContentService.verifyRegenerationToken(token);
+    if (verification.valid === false) {
+      this.logger.warn(`⚠️ Refused regeneration: ${verification.reason}`);
+      return verification;
+    }
+
+    const sourceRun = this.workflowRunService.getRun(verification.content.runId);
+    if (!sourceRun) {
+      return { valid: false, reason: 'The workflow run for this content no longer exists' };
+    }
+
+    const run = this.workflowQueueService.enqueue(sourceRun.config, sourceRun.trigger, {
+      runId: sourceRun.runId,
+      fromStep: WORKFLOW_STEPS.indexOf('promptGeneration') + 1,
+    });
+    const content = this.pendingContentService.markRegenerated(verification.content.contentId, run.runId);
+    this.syncRunApproval(content);
+    this.logger.log(`🔁 Expired content ${content.contentId} regenerated as job ${run.runId}`);
+    return { valid: true, content, runId: run.runId };
+  }
+
+  /**
+   * Result emails are opt-in (APPROVAL_RESULT_EMAILS=true) and never hold up the decision response
+   */
+  private notifyResult(content: PendingContent): void {
+    if (process.env.APPROVAL_RESULT_EMAILS !== 'true' || !content.recipientEmail) {
+      return;
+    }
+    this.emailService.sendResultEmail(content).catch(error => {
+      this.logger.warn(`⚠️ Result email for content ${content.contentId} failed: ${error.message}`);
+    });
+  }
+
+  /**
+   * Mirror the content's approval state onto the workflow run that produced it
+   */
+  syncRunApproval(content: PendingContent): void {
+    if (!content?.runId) {
+      return;
+    }
+    this.workflowRunService.recordApproval(content.runId, {
+      contentId: content.contentId,
+      status: content.status,
+      chosenVariant: content.chosenVariant,
+      edited: content.edited,
+      decidedAt: content.decidedAt,
+      approvers: content.approvers?.map(({ email, decision, decidedAt }) => ({ email, decision, decidedAt })),
+      escalatedTo: content.escalatedAt ? content.escalateTo : undefined,
+      regeneratedRunId: content.regeneratedRunId,
+    });
+  }
+}
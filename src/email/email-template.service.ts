@@ -0,0 +1,73 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { renderTemplate } from '../util/template';
+import { htmlToText } from '../util/html';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string; // Plain-text alternative derived from the HTML
+}
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * File-based templates for approval emails (`email-*.html`) and the pages approvers land on
+ * (`page-*.html`), with shared fragments in `partials/`. Files in EMAIL_TEMPLATES_DIR override
+ * the built-in ones by name, and are read on every render so edits show up without a restart.
+ */
+@Injectable()
+export class EmailTemplateService {
+  private readonly logger = new Logger(EmailTemplateService.name);
+  private readonly builtInDir = path.join(__dirname, 'templates');
+  private readonly customDir = process.env.EMAIL_TEMPLATES_DIR;
+
+  listTemplates(): string[] {
+    const names = new Set<string>();
+    for (const dir of [this.builtInDir, this.customDir].filter(Boolean)) {
+      if (fs.existsSync(dir)) {
+        fs.readdirSync(dir)
+          .filter(file => file.endsWith('.html'))
+          .forEach(file => names.add(file.replace(/\.html$/, '')));
+      }
+    }
+    return [...names].sort();
+  }
+
+  renderPage(name: string, data: object): string {
+    return this.render(name, data);
+  }
+
+  /**
+   * Email templates carry their subject in <title>, which may use variables too
+   */
+  renderEmail(name: string, data: object): RenderedEmail {
+    const html = this.render(name, data);
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    return {
+      subject: title ? htmlToText(title[1]) : '',
+      html,
+      text: htmlToText(html),
+    };
+  }
+
+  private render(name: string, data: object): string {
+    return renderTemplate(this.load(name), data, partial => this.load(path.join('partials', partial)));
+  }
+
+  private load(name: string): string {
+    if (!name.split(path.sep).every(part => TEMPLATE_NAME_PATTERN.test(part))) {
+      throw new NotFoundException(`Template "${name}" not found`);
+    }
+
+    for (const dir of [this.customDir, this.builtInDir].filter(Boolean)) {
+      const file = path.join(dir, `${name}.html`);
+      if (fs.existsSync(file)) {
+        return fs.readFileSync(file, 'utf8');
+      }
+    }
+    this.logger.error(`❌ Template "${name}" not found in ${[this.customDir, this.builtInDir].filter(Boolean).join(' or ')}`);
+    throw new NotFoundException(`Template "${name}" not found`);
+  }
+}
@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmailApprovalController } from './email.controller';
+import { EmailApprovalService } from './email.service';
+import { PendingContentService } from './pending-content.service';
+import { ContentApprovalService } from './content-approval.service';
+import { EmailTemplateService } from './email-template.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { WorkflowRunService } from '../workflow/workflow-run.service';
+import { WorkflowQueueService } from '../workflow/workflow-queue.service';
+
+describe('EmailApprovalController review form', () => {
+  let dataDir: string;
+  let controller: EmailApprovalController;
+  let pendingContentService: PendingContentService;
+  let workflowService: { handleEmailApprovalWithInstagram: jest.Mock };
+  let res: { status: jest.Mock; send: jest.Mock };
+
+  const createContent = () => pendingContentService.createPendingContent({
+    videoUrl: 'https://example.com/video.mp4',
+    caption: 'Generated caption',
+    hashtags: ['#generated'],
+    recipientEmail: 'reviewer@example.com',
+    variants: [
+      { index: 0, caption: 'First option', hashtags: ['#first'] },
+      { index: 1, caption: 'Second option', hashtags: ['#second', '#option'] },
+    ],
+  });
+  const sentHtml = (): string => res.send.mock.calls[0][0];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'email-controller-'));
+    process.env.DATA_DIR = dataDir;
+    workflowService = {
+      handleEmailApprovalWithInstagram: jest.fn(async () => ({ success: true, containerId: 'c1', message: 'Container created' })),
+    };
+    res = { status: jest.fn(), send: jest.fn() };
+    res.status.mockReturnValue(res);
+
+    const moduleRef = await Test.createTestingModule({
+      controllers: [EmailApprovalController],
+      providers: [
+        PendingContentService,
+        ContentApprovalService,
+        EmailTemplateService,
+        { provide: ConfigService, useValue: new ConfigService({ APPROVAL_TOKEN_SECRET: 'test-secret' }) },
+        { provide: WorkflowService, useValue: workflowService },
+        { provide: WorkflowRunService, useValue: { recordApproval: jest.fn() } },
+        { provide: WorkflowQueueService, useValue: {} },
+        { provide: EmailApprovalService, useValue: {} },
+      ],
+    }).compile();
+    controller = moduleRef.get(EmailApprovalController);
+    pendingContentService = moduleRef.get(PendingContentService);
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('opens approve links as a form filled in with the chosen option', async () => {
+    const content = createContent();
+
+    await controller.handleContentAction(pendingContentService.createActionToken(content, 'approve', 1), res as unknown as Response);
+
+    expect(sentHtml()).toContain('Option 2 of 2');
+    expect(sentHtml()).toContain('>Second option</textarea>');
+    expect(sentHtml()).toContain('value="#second #option"');
+    expect(pendingContentService.getContent(content.contentId).status).toBe('pending');
+  });
+
+  it('publishes the edited text with normalized hashtags and keeps the generated version', async () => {
+    const content = createContent();
+    const token = pendingContentService.createActionToken(content, 'approve', 1);
+
+    await controller.submitContentAction({
+      token,
+      caption: '  Second option, but better  ',
+      hashtags: 'Sunset, #Beach beach #2024',
+      notes: 'Tightened the wording',
+    }, res as unknown as Response);
+
+    expect(workflowService.handleEmailApprovalWithInstagram)
+      .toHaveBeenCalledWith('https://example.com/video.mp4', 'Second option, but better', ['#sunset', '#beach']);
+    expect(pendingContentService.getContent(content.contentId)).toMatchObject({
+      status: 'approved',
+      chosenVariant: 1,
+      caption: 'Second option, but better',
+      hashtags: ['#sunset', '#beach'],
+      originalCaption: 'Second option',
+      originalHashtags: ['#second', '#option'],
+      edited: true,
+      approverNotes: 'Tightened the wording',
+    });
+  });
+
+  it('does not count an unchanged submission as an edit', async () => {
+    const content = createContent();
+
+    await controller.submitContentAction({
+      token: pendingContentService.createActionToken(content, 'approve', 0),
+      caption: 'First option',
+      hashtags: '#first',
+      notes: '   ',
+    }, res as unknown as Response);
+
+    const stored = pendingContentService.getContent(content.contentId);
+    expect(stored).toMatchObject({ status: 'approved', edited: false, caption: 'First option' });
+    expect(stored.approverNotes).toBeUndefined();
+  });
+
+  it('shows the form again with the problems when the edits cannot be published', async () => {
+    const content = createContent();
+    const token = pendingContentService.createActionToken(content, 'approve', 0);
+
+    await controller.submitContentAction({ token, caption: '   ', hashtags: '#first' }, res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(sentHtml()).toContain('Caption is empty');
+    expect(sentHtml()).toContain(`value="${token}"`);
+    expect(workflowService.handleEmailApprovalWithInstagram).not.toHaveBeenCalled();
+    expect(pendingContentService.getContent(content.contentId).status).toBe('pending');
+  });
+});
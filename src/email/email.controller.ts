@@ -1,20 +1,32 @@
-import { Controller, Get, Query, Res, Post, Body } from '@nestjs/common';
+import { Controller, Get, Query, Res, Post, Body, Param, NotFoundException } from '@nestjs/common';
 import { Response } from 'express';
 import { EmailApprovalService } from './email.service';
+import { PendingContentService, PendingContent } from './pending-content.service';
+import { ContentApprovalService, ContentDecisionOutcome } from './content-approval.service';
 import { WorkflowService } from '../workflow/workflow.service';
+import { EmailTemplateService } from './email-template.service';
+import { TEMPLATE_SAMPLES } from './template-samples';
+import { normalizeInstagramContent } from '../util/caption-validator';
 
-export class SendContentEmailDto {
-  recipientEmail: string;
-  videoUrl: string;
+export class ApproveContentDto {
+  token: string;
   caption: string;
-  hashtags: string[];
+  hashtags?: string; // Space or comma separated, as typed into the form
+  notes?: string;
+}
+
+export class RegenerateContentDto {
+  token: string;
 }
 
 @Controller('email-approval')
 export class EmailApprovalController {
   constructor(
     private readonly emailService: EmailApprovalService,
-    private readonly workflowService: WorkflowService
+    private readonly pendingContentService: PendingContentService,
+    private readonly contentApprovalService: ContentApprovalService,
+    private readonly workflowService: WorkflowService,
+    private readonly emailTemplateService: EmailTemplateService,
   ) {}
 
   // Send approval email
@@ -24,187 +36,176 @@ export class EmailApprovalController {
     return { message: 'Approval email sent successfully!' };
   }
 
-  // Send content delivery email
-  @Post('send-content')
-  async sendContentEmail(@Body() sendContentDto: SendContentEmailDto) {
-    await this.emailService.sendContentDeliveryEmail(
-      sendContentDto.recipientEmail,
-      sendContentDto.videoUrl,
-      sendContentDto.caption,
-      sendContentDto.hashtags
-    );
-    return { 
-      message: 'Content delivery email sent successfully!',
-      recipientEmail: sendContentDto.recipientEmail,
-      sentAt: new Date().toISOString()
-    };
-  }
-
   // Step 1: Initial page with popup confirmation
   @Get('action')
   async showConfirmation(
     @Query('type') type: 'approve' | 'reject',
     @Res() res: Response,
   ) {
-    const actionLabel = type === 'approve' ? 'Approve' : 'Reject';
-    const color = type === 'approve' ? '#4CAF50' : '#f44336';
-
-    const html = `
-      <html>
-        <head>
-          <title>${actionLabel} Confirmation</title>
-          <style>
-            body {
-              font-family: Arial, sans-serif;
-              text-align: center;
-              padding-top: 100px;
-            }
-            button {
-              background-color: ${color};
-              color: white;
-              padding: 10px 20px;
-              border: none;
-              border-radius: 5px;
-              cursor: pointer;
-              font-size: 16px;
-            }
-            button:hover {
-              opacity: 0.9;
-            }
-          </style>
-        </head>
-        <body>
-          <h2>${actionLabel} Request</h2>
-          <p>Are you sure you want to <b>${actionLabel.toLowerCase()}</b> this request?</p>
-          <button onclick="confirmAction()">Confirm ${actionLabel}</button>
-
-          <script>
-            function confirmAction() {
-              if (confirm('Are you sure you want to ${actionLabel.toLowerCase()} this request?')) {
-                window.location.href = '/email-approval/confirm?action=${type}';
-              } else {
-                alert('Action cancelled.');
-              }
-            }
-          </script>
-        </body>
-      </html>
-    `;
+    const label = type === 'approve' ? 'Approve' : 'Reject';
+    const html = this.emailTemplateService.renderPage('page-confirm-action', {
+      label,
+      verb: label.toLowerCase(),
+      type,
+      color: type === 'approve' ? '#4CAF50' : '#f44336',
+    });
 
     res.send(html);
   }
 
-  // Simple approval/rejection handler
+  // Approval/rejection link - the signed token identifies the stored content and the action.
+  // Opening a link never decides anything (mail scanners prefetch links): approve links open an
+  // edit form, reject links a confirmation page, and both submit to the POST handler below.
   @Get('content-action')
   async handleContentAction(
-    @Query('action') action: 'approve' | 'reject',
-    @Query('contentId') contentId: string,
+    @Query('token') token: string,
     @Res() res: Response,
-    @Query('videoUrl') videoUrl?: string,
-    @Query('caption') caption?: string,
-    @Query('hashtags') hashtags?: string
   ) {
-    if (action === 'reject') {
-      console.log(`❌ Content rejected: ${contentId}`);
-      const html = `
-        <html>
-          <head>
-            <title>Content Rejected</title>
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 50px; }
-              .container { max-width: 500px; margin: 0 auto; }
-              .rejected { color: #dc3545; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h2 class="rejected">❌ Content Rejected</h2>
-              <p>The content has been rejected and will not be processed further.</p>
-              <p><small>Content ID: ${contentId}</small></p>
-              <p><small>Rejected at: ${new Date().toLocaleString()}</small></p>
-            </div>
-          </body>
-        </html>
-      `;
-      res.send(html);
+    const verification = this.pendingContentService.verifyActionToken(token);
+    if (verification.valid === true && verification.action === 'approve') {
+      const variant = verification.content.variants?.find(candidate => candidate.index === verification.variant);
+      res.send(this.renderApprovalForm(token, verification.content, {
+        caption: variant ? variant.caption : verification.content.caption,
+        hashtags: (variant ? variant.hashtags : verification.content.hashtags).join(' '),
+      }, variant?.index));
       return;
     }
 
-    if (action === 'approve') {
-      console.log(`✅ Content approved: ${contentId}`);
-      
-      // Trigger Instagram upload when content is approved
-      let instagramResult = null;
-      if (videoUrl && caption) {
-        try {
-          const decodedCaption = decodeURIComponent(caption);
-          const fullCaption = hashtags ? `${decodedCaption}\n\n${decodeURIComponent(hashtags)}` : decodedCaption;
-          
-          console.log(`🎬 Starting Instagram upload for approved content...`);
-          instagramResult = await this.workflowService.handleEmailApprovalWithInstagram(
-            videoUrl, 
-            decodedCaption, 
-            hashtags ? [decodeURIComponent(hashtags)] : []
-          );
-          
-          if (instagramResult.success) {
-            console.log(`✅ Instagram container created: ${instagramResult.containerId}`);
-          } else {
-            console.error(`❌ Instagram upload failed: ${instagramResult.message}`);
-          }
-        } catch (error) {
-          console.error(`❌ Error during Instagram upload:`, error);
-          instagramResult = {
-            success: false,
-            message: `Upload error: ${error instanceof Error ? error.message : 'Unknown error'}`
-          };
-        }
-      }
-      
-      const approvedHtml = `
-        <html>
-          <head>
-            <title>Content Approved</title>
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 50px; }
-              .container { max-width: 600px; margin: 0 auto; }
-              .approved { color: #28a745; }
-              .instagram-status { margin: 20px 0; padding: 15px; border-radius: 8px; }
-              .success { background-color: #d4edda; border: 1px solid #c3e6cb; color: #155724; }
-              .error { background-color: #f8d7da; border: 1px solid #f5c6cb; color: #721c24; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h2 class="approved">✅ Content Approved</h2>
-              <p>The content has been approved successfully!</p>
-              
-              ${instagramResult ? `
-                <div class="instagram-status ${instagramResult.success ? 'success' : 'error'}">
-                  <h4>📱 Instagram Upload Status:</h4>
-                  <p>${instagramResult.success ? '✅' : '❌'} ${instagramResult.message}</p>
-                  ${instagramResult.containerId ? `<p><small>Container ID: ${instagramResult.containerId}</small></p>` : ''}
-                </div>
-              ` : ''}
-              
-              <hr style="margin: 30px 0;">
-              <div style="text-align: left; background-color: #f8f9fa; padding: 20px; border-radius: 8px;">
-                <h4>📝 Content Details:</h4>
-                <p><strong>Video:</strong> ${videoUrl || 'N/A'}</p>
-                <p><strong>Caption:</strong> ${caption ? decodeURIComponent(caption) : 'N/A'}</p>
-                <p><strong>Hashtags:</strong> ${hashtags ? decodeURIComponent(hashtags) : 'N/A'}</p>
-              </div>
-              <p><small>Content ID: ${contentId}</small></p>
-              <p><small>Approved at: ${new Date().toLocaleString()}</small></p>
-            </div>
-          </body>
-        </html>
-      `;
-      res.send(approvedHtml);
+    if (verification.valid === true) {
+      res.send(this.emailTemplateService.renderPage('page-confirm-reject', {
+        token,
+        contentId: verification.content.contentId,
+        videoUrl: verification.content.videoUrl,
+      }));
+      return;
+    }
+
+    this.sendOutcome(res, verification);
+  }
+
+  // Form submission - publishes the (possibly edited) caption and hashtags, or confirms a rejection
+  @Post('content-action')
+  async submitContentAction(
+    @Body() approveDto: ApproveContentDto,
+    @Res() res: Response,
+  ) {
+    const verification = this.pendingContentService.verifyActionToken(approveDto.token);
+    if (verification.valid === false || verification.action !== 'approve') {
+      this.sendOutcome(res, await this.contentApprovalService.decideWithToken(approveDto.token));
+      return;
+    }
+
+    const edits = normalizeInstagramContent(approveDto.caption, approveDto.hashtags || '');
+    if (!edits.validation.valid) {
+      res.status(400).send(this.renderApprovalForm(approveDto.token, verification.content, approveDto, verification.variant, edits.validation.errors));
+      return;
+    }
+
+    const outcome = await this.contentApprovalService.decideWithToken(approveDto.token, {
+      caption: edits.caption,
+      hashtags: edits.hashtags,
+      notes: approveDto.notes?.trim() || undefined,
+    });
+    this.sendOutcome(res, outcome);
+  }
+
+  // Regenerate content whose approval deadline passed - any link sent for it authorizes this
+  @Post('regenerate')
+  regenerateContent(
+    @Body() regenerateDto: RegenerateContentDto,
+    @Res() res: Response,
+  ) {
+    const outcome = this.contentApprovalService.regenerateWithToken(regenerateDto.token);
+    if (outcome.valid === false) {
+      this.sendOutcome(res, outcome);
       return;
     }
 
-    res.status(400).send('<h2 style="text-align: center; margin-top: 100px;">❌ Invalid action.</h2>');
+    const html = this.emailTemplateService.renderPage('page-regenerating', { runId: outcome.runId });
+    res.status(202).send(html);
+  }
+
+  private renderApprovalForm(
+    token: string,
+    content: PendingContent,
+    values: { caption: string; hashtags?: string; notes?: string },
+    variant?: number,
+    errors: string[] = [],
+  ): string {
+    return this.emailTemplateService.renderPage('page-review', {
+      token,
+      contentId: content.contentId,
+      videoUrl: content.videoUrl,
+      variant: variant !== undefined ? { number: variant + 1, total: content.variants.length } : undefined,
+      errors,
+      caption: values.caption,
+      hashtags: values.hashtags,
+      notes: values.notes,
+    });
+  }
+
+  /**
+   * Expired links never decide anything; once the deadline has passed they offer to regenerate instead
+   */
+  private renderExpiredPage(content: PendingContent): string {
+    let message: string;
+    let regenerateToken: string;
+    if (!this.pendingContentService.isPastDeadline(content)) {
+      message = `This request has been escalated to ${content.escalateTo}, who can still decide until ${new Date(content.expiresAt).toUTCString()}.`;
+    } else if (content.regeneratedRunId) {
+      message = `This content has already been regenerated (job ${content.regeneratedRunId}).`;
+    } else if (!content.runId) {
+      message = 'Nobody decided on this content before the deadline.';
+    } else {
+      message = 'Nobody decided on this content before the deadline, so it can no longer be published. The video link may have expired too.';
+      regenerateToken = this.pendingContentService.createActionToken(content, 'reject');
+    }
+
+    return this.emailTemplateService.renderPage('page-expired', {
+      contentId: content.contentId,
+      message,
+      regenerateToken,
+    });
+  }
+
+  private sendOutcome(res: Response, outcome: ContentDecisionOutcome): void {
+    if (outcome.valid === false && outcome.expiredContent) {
+      res.status(410).send(this.renderExpiredPage(outcome.expiredContent));
+      return;
+    }
+
+    if (outcome.valid === false) {
+      res.status(400).send(this.emailTemplateService.renderPage('page-invalid-link', { reason: outcome.reason }));
+      return;
+    }
+
+    const { content, instagramResult } = outcome;
+    const decidedAt = new Date(content.decidedAt || Date.now()).toLocaleString();
+
+    if (outcome.action === 'reject') {
+      res.send(this.emailTemplateService.renderPage('page-rejected', { contentId: content.contentId, decidedAt }));
+      return;
+    }
+
+    if (content.status === 'pending') {
+      res.send(this.emailTemplateService.renderPage('page-approval-recorded', {
+        contentId: content.contentId,
+        approvals: content.approvers.filter(approver => approver.decision === 'approve').length,
+        required: content.approvalPolicy.required,
+      }));
+      return;
+    }
+
+    res.send(this.emailTemplateService.renderPage('page-approved', {
+      contentId: content.contentId,
+      decidedAt,
+      instagram: instagramResult,
+      videoUrl: content.videoUrl,
+      chosenVariant: content.chosenVariant !== undefined ? { number: content.chosenVariant + 1, total: content.variants.length } : undefined,
+      caption: content.caption,
+      hashtags: content.hashtags.join(' '),
+      edited: content.edited,
+    }));
   }
 
   // Step 2: Final confirmation route (legacy)
@@ -212,13 +213,39 @@ export class EmailApprovalController {
   async finalizeAction(@Query('action') action: 'approve' | 'reject') {
     if (action === 'approve') {
       console.log('✅ Email Approved');
-      return `<h2 style="color: green; text-align: center; margin-top: 100px;">✅ Request Approved Successfully!</h2>`;
+      return this.emailTemplateService.renderPage('page-confirm-result', { color: 'green', message: '✅ Request Approved Successfully!' });
     } else if (action === 'reject') {
       console.log('❌ Email Rejected');
-      return `<h2 style="color: red; text-align: center; margin-top: 100px;">❌ Request Rejected!</h2>`;
+      return this.emailTemplateService.renderPage('page-confirm-result', { color: 'red', message: '❌ Request Rejected!' });
     } else {
-      return `<h2 style="text-align: center; margin-top: 100px;">Invalid action.</h2>`;
+      return this.emailTemplateService.renderPage('page-confirm-result', { color: 'inherit', message: 'Invalid action.' });
+    }
+  }
+
+  // Render a template with sample data so designers can iterate without sending mail.
+  // Emails render as HTML by default, or as their subject and plain-text part with ?format=text
+  @Get('preview/:template')
+  previewTemplate(
+    @Param('template') template: string,
+    @Query('format') format: 'html' | 'text',
+    @Res() res: Response,
+  ) {
+    const sample = TEMPLATE_SAMPLES[template];
+    if (!sample) {
+      throw new NotFoundException(`No sample data for template "${template}". Available: ${Object.keys(TEMPLATE_SAMPLES).join(', ')}`);
+    }
+
+    if (!template.startsWith('email-')) {
+      res.send(this.emailTemplateService.renderPage(template, sample));
+      return;
+    }
+
+    const email = this.emailTemplateService.renderEmail(template, sample);
+    if (format === 'text') {
+      res.type('text/plain').send(`Subject: ${email.subject}\n\n${email.text}`);
+      return;
     }
+    res.send(email.html);
   }
 
   // Check Instagram container status
@@ -1,12 +1,19 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { EmailApprovalController } from './email.controller';
 import { EmailApprovalService } from './email.service';
+import { PendingContentService } from './pending-content.service';
+import { ContentApprovalService } from './content-approval.service';
+import { ApprovalPolicyService } from './approval-policy.service';
+import { ApprovalPolicyController } from './approval-policy.controller';
+import { ApprovalReminderService } from './approval-reminder.service';
+import { EmailTemplateService } from './email-template.service';
+import { MailerService } from './mailer.service';
 import { WorkflowModule } from '../workflow/workflow.module';
 
 @Module({
   imports: [forwardRef(() => WorkflowModule)],
-  controllers: [EmailApprovalController],
-  providers: [EmailApprovalService],
-  exports: [EmailApprovalService],
+  controllers: [EmailApprovalController, ApprovalPolicyController],
+  providers: [EmailApprovalService, PendingContentService, ContentApprovalService, ApprovalPolicyService, ApprovalReminderService, EmailTemplateService, MailerService],
+  exports: [EmailApprovalService, PendingContentService, ContentApprovalService, ApprovalPolicyService, EmailTemplateService],
 })
 export class EmailApprovalModule {}
@@ -1,171 +1,180 @@
 import { Injectable, Logger } from '@nestjs/common';
-import * as nodemailer from 'nodemailer';
+import { PendingContentService, PendingContent, CaptionVariant } from './pending-content.service';
+import { ApprovalRequest } from './approval-policy.service';
+import { EmailTemplateService } from './email-template.service';
+import { MailerService } from './mailer.service';
+
+export type ContentEmailTemplate = 'email-content-delivery' | 'email-content-reminder' | 'email-content-escalation';
 
 @Injectable()
 export class EmailApprovalService {
   private readonly logger = new Logger(EmailApprovalService.name);
 
-  private createTransporter() {
-    return nodemailer.createTransport({
-      service: 'gmail', 
-      auth: {
-        user: process.env.MAIL_USER,
-        pass: process.env.MAIL_PASS,
-      },
-      // Add timeout and connection settings for Render deployment
-      pool: true,
-      maxConnections: 1,
-      rateDelta: 20000,
-      rateLimit: 5,
-      connectionTimeout: 60000, // 60 seconds
-      greetingTimeout: 30000,   // 30 seconds  
-      socketTimeout: 60000,     // 60 seconds
-    });
-  }
+  constructor(
+    private readonly pendingContentService: PendingContentService,
+    private readonly emailTemplateService: EmailTemplateService,
+    private readonly mailerService: MailerService,
+  ) {}
 
   async sendApprovalEmail(recipientEmail: string): Promise<void> {
-    const maxRetries = 3;
-    let lastError: Error;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        this.logger.log(`📧 Attempt ${attempt}/${maxRetries}: Sending approval email to ${recipientEmail}`);
-        
-        const transporter = this.createTransporter();
-        const approvalUrl = `${process.env.BASE_DEPLOYED_URL}/email-approval/action?type=approve`;
-        const rejectUrl = `${process.env.BASE_DEPLOYED_URL}/email-approval/action?type=reject`;
+    const email = this.emailTemplateService.renderEmail('email-approval-request', {
+      recipientName: process.env.MAIL_RECIPIENT_NAME || 'there',
+      approveUrl: `${process.env.BASE_DEPLOYED_URL}/email-approval/action?type=approve`,
+      rejectUrl: `${process.env.BASE_DEPLOYED_URL}/email-approval/action?type=reject`,
+    });
+    await this.mailerService.send(recipientEmail, email, 'approval email');
+  }
 
-        const htmlContent = `
-          <div style="font-family: sans-serif; padding: 20px;">
-            <h2>Email Approval Request</h2>
-            <p>Hey Samay 👋, someone has requested approval.</p>
-            <p>Please choose one of the options below:</p>
-            <div style="margin-top: 20px;">
-              <a href="${approvalUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Approve</a>
-              <a href="${rejectUrl}" style="background-color: #f44336; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; margin-left: 10px;">Reject</a>
-            </div>
-          </div>
-        `;
+  async sendContentDeliveryEmail(
+    recipientEmail: string,
+    videoUrl: string,
+    caption: string,
+    hashtags: string[],
+    runId?: string,
+    variants?: CaptionVariant[],
+    approval?: ApprovalRequest,
+  ): Promise<PendingContent> {
+    // Links only carry signed tokens that reference this stored record, never the content itself
+    const pendingContent = this.pendingContentService.createPendingContent({
+      videoUrl,
+      caption,
+      hashtags,
+      recipientEmail,
+      runId,
+      variants,
+      approval,
+    });
+    await this.sendApprovalRequestEmails(pendingContent);
+    return pendingContent;
+  }
 
-        await transporter.sendMail({
-          from: `"Approval Bot" <${process.env.MAIL_USER}>`,
-          to: recipientEmail,
-          subject: 'Content Approval Request',
-          html: htmlContent,
-        });
+  /**
+   * Email the review request for stored content to its recipient, or to every approver
+   * (each with their own links, so their decision is tracked separately)
+   */
+  async sendApprovalRequestEmails(pendingContent: PendingContent): Promise<void> {
+    if (!pendingContent.approvers) {
+      await this.deliverContentEmail(pendingContent, pendingContent.recipientEmail);
+      return;
+    }
 
-        this.logger.log(`✅ Approval email sent successfully to ${recipientEmail} on attempt ${attempt}`);
-        return; // Success, exit retry loop
-        
+    const failures: string[] = [];
+    for (const { email } of pendingContent.approvers) {
+      try {
+        await this.deliverContentEmail(pendingContent, email, email);
       } catch (error) {
-        lastError = error;
-        this.logger.warn(`⚠️ Approval email attempt ${attempt}/${maxRetries} failed: ${error.message}`);
-        
-        if (attempt < maxRetries) {
-          const waitTime = attempt * 2000; // Progressive backoff: 2s, 4s, 6s
-          this.logger.log(`⏳ Waiting ${waitTime}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-        }
+        failures.push(`${email}: ${error.message}`);
       }
     }
-
-    // If all retries failed, throw the last error
-    this.logger.error(`❌ All ${maxRetries} approval email attempts failed. Last error: ${lastError.message}`);
-    throw new Error(`Approval email delivery failed after ${maxRetries} attempts: ${lastError.message}`);
+    if (failures.length === pendingContent.approvers.length) {
+      throw new Error(`Email delivery failed for every approver (${failures.join('; ')})`);
+    }
+    if (failures.length > 0) {
+      this.logger.warn(`⚠️ Content ${pendingContent.contentId} could not be sent to ${failures.length} approver(s): ${failures.join('; ')}`);
+    }
   }
 
-  async sendContentDeliveryEmail(
-    recipientEmail: string, 
-    videoUrl: string, 
-    caption: string, 
-    hashtags: string[],
-  ): Promise<void> {
-    const maxRetries = 3;
-    let lastError: Error;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+  /**
+   * Re-send the content to everyone who has not decided yet
+   */
+  async sendReminderEmail(pendingContent: PendingContent): Promise<void> {
+    if (!pendingContent.approvers) {
+      await this.deliverContentEmail(pendingContent, pendingContent.recipientEmail, undefined, 'email-content-reminder');
+      return;
+    }
+    const undecided = pendingContent.approvers.filter(entry => !entry.decision);
+    const failures: string[] = [];
+    for (const approver of undecided) {
       try {
-        this.logger.log(`📧 Attempt ${attempt}/${maxRetries}: Sending email to ${recipientEmail}`);
-        
-        const transporter = this.createTransporter();
-        const hashtagsString = hashtags.join(' ');
-        const PORT = process.env.PORT || 8080;
-        
-        //  approval and reject URLs with content dataCreate
-        const approveUrl = `${process.env.BASE_DEPLOYED_URL}/email-approval/content-action?action=approve&videoUrl=${encodeURIComponent(videoUrl)}&caption=${encodeURIComponent(caption)}&hashtags=${encodeURIComponent(hashtagsString)}`;
-        const rejectUrl = `${process.env.BASE_DEPLOYED_URL}/email-approval/content-action?action=reject`;
-
-        const htmlContent = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h2 style="color: #333; text-align: center;">🎬 Your Content is Ready!</h2>
-            
-            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #495057; margin-top: 0;">📹 Video</h3>
-              <p><strong>Video URL:</strong></p>
-              <a href="${videoUrl}" style="color: #007bff; word-break: break-all;">${videoUrl}</a>
-            </div>
-
-            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #495057; margin-top: 0;">📝 Caption</h3>
-              <p style="font-style: italic; line-height: 1.6;">"${caption}"</p>
-            </div>
-
-            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #495057; margin-top: 0;">🏷️ Hashtags</h3>
-              <p style="color: #6c757d; word-break: break-word;">${hashtagsString}</p>
-            </div>
-
-            <div style="background-color: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ffc107;">
-              <h4 style="color: #856404; margin-top: 0;">📋 Content Approval</h4>
-              <p style="color: #856404; margin-bottom: 15px;">
-                Please review the content above and choose to approve or reject it.
-              </p>
-              <div style="text-align: center;">
-                <a href="${approveUrl}" style="background-color: #28a745; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin-right: 10px; display: inline-block; font-weight: bold;">
-                  ✅ Approve Content
-                </a>
-                <a href="${rejectUrl}" style="background-color: #dc3545; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
-                  ❌ Reject Content
-                </a>
-              </div>
-            </div>
-
-            <div style="background-color: #e8f5e8; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #28a745;">
-              <h4 style="color: #155724; margin-top: 0;">📋 Ready for Use</h4>
-              <p style="color: #155724; margin-bottom: 0;">
-                Once approved, you can download the video and use the caption and hashtags for your social media posts.
-              </p>
-            </div>
-            
-            <hr style="border: none; border-top: 1px solid #dee2e6; margin: 30px 0;">
-            
-          </div>
-        `;
-
-        await transporter.sendMail({
-          from: `"Content Creator Bot" <${process.env.MAIL_USER}>`,
-          to: recipientEmail,
-          subject: '🎬 Your Automated Content is Ready!',
-          html: htmlContent,
-        });
-
-        this.logger.log(`✅ Content delivery email sent successfully to ${recipientEmail} on attempt ${attempt}`);
-        return; // Success, exit retry loop
-        
+        await this.deliverContentEmail(pendingContent, approver.email, approver.email, 'email-content-reminder');
       } catch (error) {
-        lastError = error;
-        this.logger.warn(`⚠️ Email attempt ${attempt}/${maxRetries} failed: ${error.message}`);
-        
-        if (attempt < maxRetries) {
-          const waitTime = attempt * 2000; // Progressive backoff: 2s, 4s, 6s
-          this.logger.log(`⏳ Waiting ${waitTime}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-        }
+        failures.push(`${approver.email}: ${error.message}`);
       }
     }
+    if (undecided.length > 0 && failures.length === undecided.length) {
+      throw new Error(`Reminder delivery failed for every approver (${failures.join('; ')})`);
+    }
+    if (failures.length > 0) {
+      this.logger.warn(`⚠️ Reminder for content ${pendingContent.contentId} could not be sent to ${failures.length} approver(s): ${failures.join('; ')}`);
+    }
+  }
 
-    // If all retries failed, throw the last error
-    this.logger.error(`❌ All ${maxRetries} email attempts failed. Last error: ${lastError.message}`);
-    throw new Error(`Email delivery failed after ${maxRetries} attempts: ${lastError.message}`);
+  /**
+   * Ask the backup approver to decide content nobody decided before the deadline
+   */
+  async sendEscalationEmail(pendingContent: PendingContent): Promise<void> {
+    await this.deliverContentEmail(pendingContent, pendingContent.escalateTo, pendingContent.escalateTo, 'email-content-escalation');
+  }
+
+  /**
+   * Tell the recipient (or every approver) how the content was decided
+   */
+  async sendResultEmail(pendingContent: PendingContent): Promise<void> {
+    const email = this.emailTemplateService.renderEmail('email-content-result', {
+      contentId: pendingContent.contentId,
+      approved: pendingContent.status === 'approved',
+      videoUrl: pendingContent.videoUrl,
+      caption: pendingContent.caption,
+      hashtags: pendingContent.hashtags.join(' '),
+      edited: pendingContent.edited,
+      instagram: pendingContent.instagramResult,
+      approvers: (pendingContent.approvers || []).map(({ email, decision }) => ({ email, decision: decision || 'no decision' })),
+      decidedAt: new Date(pendingContent.decidedAt || Date.now()).toUTCString(),
+    });
+    await this.mailerService.send(pendingContent.recipientEmail, email, 'result email');
+  }
+
+  private async deliverContentEmail(
+    pendingContent: PendingContent,
+    recipientEmail: string,
+    approver?: string,
+    template: ContentEmailTemplate = 'email-content-delivery',
+  ): Promise<void> {
+    const email = this.emailTemplateService.renderEmail(template, this.contentReviewData(pendingContent, approver));
+    await this.mailerService.send(recipientEmail, email, 'content email');
+  }
+
+  /**
+   * Template data for the content emails; every link carries a token for the given approver
+   */
+  private contentReviewData(pendingContent: PendingContent, approver?: string) {
+    const actionUrl = (token: string) => `${process.env.BASE_DEPLOYED_URL}/email-approval/content-action?token=${token}`;
+    const { videoUrl, caption, hashtags, variants, imageCrop, imageFit, imagePadding } = pendingContent;
+
+    return {
+      videoUrl,
+      crop: imageCrop && {
+        strategy: imageCrop.strategy,
+        size: `${imageCrop.width}x${imageCrop.height}`,
+        position: `${imageCrop.left}, ${imageCrop.top}`,
+        source: `${imageCrop.sourceWidth}x${imageCrop.sourceHeight}`,
+        keptPercent: Math.round((imageCrop.width * imageCrop.height * 100) / (imageCrop.sourceWidth * imageCrop.sourceHeight)),
+        subject: imageCrop.subject?.label,
+        fallbackReason: imageCrop.fallbackReason,
+        auto: imageFit?.requested === 'auto',
+      },
+      padding: imagePadding && {
+        style: imagePadding.style === 'blur' ? 'blurred copy of the image' : imagePadding.style === 'solid' ? `solid ${imagePadding.color}` : `gradient ${imagePadding.color} → ${imagePadding.gradientTo}`,
+        cropLossPercent: imageFit ? Math.round(imageFit.cropLoss * 100) : undefined,
+        auto: imageFit?.requested === 'auto',
+      },
+      caption,
+      hashtags: hashtags.join(' '),
+      // With several candidates each one gets its own approve link; approving picks it
+      variants: variants?.map(variant => ({
+        number: variant.index + 1,
+        tone: variant.tone,
+        caption: variant.caption,
+        hashtags: variant.hashtags.join(' '),
+        approveUrl: actionUrl(this.pendingContentService.createActionToken(pendingContent, 'approve', variant.index, approver)),
+      })),
+      approveUrl: actionUrl(this.pendingContentService.createActionToken(pendingContent, 'approve', undefined, approver)),
+      rejectUrl: actionUrl(this.pendingContentService.createActionToken(pendingContent, 'reject', undefined, approver)),
+      policy: pendingContent.approvalPolicy && !pendingContent.escalatedAt
+        ? { required: pendingContent.approvalPolicy.required, total: pendingContent.approvers.length }
+        : undefined,
+      deadline: new Date(pendingContent.expiresAt).toUTCString(),
+      escalationPending: Boolean(pendingContent.escalateTo && !pendingContent.escalatedAt),
+    };
   }
 }
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, createHmac } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { createMailTransport, MailMessage } from './mail-transports';
+
+describe('mail transports', () => {
+  const message: MailMessage = {
+    from: { name: 'Content "Bot"', address: 'bot@example.com' },
+    to: 'alex@example.com, sam@example.com',
+    subject: 'Review',
+    html: '<p>Hi</p>',
+    text: 'Hi',
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('ses', () => {
+    const secretAccessKey = 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY';
+    const createSes = (config: Record<string, string> = {}) => createMailTransport('ses', new ConfigService({
+      SES_REGION: 'eu-west-1',
+      AWS_ACCESS_KEY_ID: 'AKIDEXAMPLE',
+      AWS_SECRET_ACCESS_KEY: secretAccessKey,
+      ...config,
+    }));
+
+    it('requires a region and credentials', () => {
+      expect(() => createSes({ AWS_SECRET_ACCESS_KEY: '' })).toThrow('must be set when MAIL_TRANSPORT=ses');
+    });
+
+    it('signs SendEmail requests with SigV4', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-15T12:30:45.123Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ MessageId: 'ses-1' })));
+
+      const delivery = await createSes().send(message);
+
+      expect(delivery).toEqual({ messageId: 'ses-1' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(String(url)).toBe('https://email.eu-west-1.amazonaws.com/v2/email/outbound-emails');
+      const body = init.body as string;
+      expect(JSON.parse(body)).toMatchObject({
+        FromEmailAddress: '"Content Bot" <bot@example.com>',
+        Destination: { ToAddresses: ['alex@example.com', 'sam@example.com'] },
+      });
+
+      const headers = init.headers as Record<string, string>;
+      expect(headers['x-amz-date']).toBe('20240115T123045Z');
+
+      const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+      const canonicalRequest = [
+        'POST',
+        '/v2/email/outbound-emails',
+        '',
+        'content-type:application/json\nhost:email.eu-west-1.amazonaws.com\nx-amz-date:20240115T123045Z\n',
+        'content-type;host;x-amz-date',
+        sha256(body),
+      ].join('\n');
+      const scope = '20240115/eu-west-1/ses/aws4_request';
+      const stringToSign = ['AWS4-HMAC-SHA256', '20240115T123045Z', scope, sha256(canonicalRequest)].join('\n');
+      let signingKey: Buffer | string = `AWS4${secretAccessKey}`;
+      for (const part of ['20240115', 'eu-west-1', 'ses', 'aws4_request']) {
+        signingKey = createHmac('sha256', signingKey).update(part).digest();
+      }
+      const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+      expect(headers.authorization).toBe(
+        `AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/${scope}, SignedHeaders=content-type;host;x-amz-date, Signature=${signature}`,
+      );
+    });
+
+    it('signs the session token when temporary credentials are used', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ MessageId: 'ses-1' })));
+
+      await createSes({ AWS_SESSION_TOKEN: 'session-token' }).send(message);
+
+      const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+      expect(headers['x-amz-security-token']).toBe('session-token');
+      expect(headers.authorization).toContain('SignedHeaders=content-type;host;x-amz-date;x-amz-security-token,');
+    });
+
+    it('reports API errors', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{"message":"Email address is not verified"}', { status: 400 }));
+
+      await expect(createSes().send(message)).rejects.toThrow('SES API error 400: {"message":"Email address is not verified"}');
+    });
+  });
+
+  describe('outbox', () => {
+    let outboxDir: string;
+
+    beforeEach(() => {
+      outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outboxDir, { recursive: true, force: true });
+    });
+
+    it('keeps messages to the same recipient sent at the same time apart', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-15T12:30:45.123Z'), doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+      const transport = createMailTransport('outbox', new ConfigService({ MAIL_OUTBOX_DIR: outboxDir }));
+
+      const first = await transport.send(message);
+      const second = await transport.send(message);
+
+      expect(first.location).not.toBe(second.location);
+      expect(fs.readdirSync(outboxDir)).toHaveLength(4);
+      expect(JSON.parse(fs.readFileSync(first.location.replace(/\.eml$/, '.json'), 'utf8'))).toMatchObject({ subject: 'Review', text: 'Hi' });
+    });
+  });
+});
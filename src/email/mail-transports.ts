@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import * as nodemailer from 'nodemailer';
+import { ConfigService } from '@nestjs/config';
+import { getDataDir } from '../util/json-store';
+
+export type MailTransportName = 'gmail' | 'smtp' | 'ses' | 'outbox';
+
+export const MAIL_TRANSPORT_NAMES: MailTransportName[] = ['gmail', 'smtp', 'ses', 'outbox'];
+
+export interface MailMessage {
+  from: { name: string; address: string };
+  to: string; // One address or a comma separated list
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailDelivery {
+  messageId?: string;
+  location?: string; // Where the outbox transport wrote the message
+}
+
+/**
+ * Delivers rendered messages. One instance is created at startup and reused for every send.
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: MailMessage): Promise<MailDelivery>;
+  close(): void;
+}
+
+/**
+ * Gmail and generic SMTP both go through a single pooled nodemailer transporter
+ */
+class NodemailerMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(readonly name: 'gmail' | 'smtp', config: ConfigService) {
+    const connection = name === 'gmail'
+      ? {
+          service: 'gmail',
+          auth: { user: config.get<string>('MAIL_USER'), pass: config.get<string>('MAIL_PASS') },
+        }
+      : {
+          host: config.get<string>('SMTP_HOST'),
+          port: parseInt(config.get<string>('SMTP_PORT') || '587', 10),
+          secure: config.get<string>('SMTP_SECURE') === 'true', // true for implicit TLS (465), otherwise STARTTLS when offered
+          requireTLS: config.get<string>('SMTP_REQUIRE_TLS') === 'true',
+          auth: config.get<string>('SMTP_USER')
+            ? { user: config.get<string>('SMTP_USER'), pass: config.get<string>('SMTP_PASS') }
+            : undefined,
+          tls: { rejectUnauthorized: config.get<string>('SMTP_TLS_REJECT_UNAUTHORIZED') !== 'false' },
+        };
+
+    if (name === 'smtp' && !config.get<string>('SMTP_HOST')) {
+      throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT=smtp');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      ...connection,
+      // Add timeout and connection settings for Render deployment
+      pool: true,
+      maxConnections: 1,
+      rateDelta: 20000,
+      rateLimit: 5,
+      connectionTimeout: 60000, // 60 seconds
+      greetingTimeout: 30000,   // 30 seconds
+      socketTimeout: 60000,     // 60 seconds
+    } as nodemailer.TransportOptions);
+  }
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId };
+  }
+
+  close(): void {
+    this.transporter.close();
+  }
+}
+
+/**
+ * Amazon SES v2 SendEmail over HTTPS with SigV4 signing. SES_ENDPOINT points it at an
+ * SES-compatible API (or a local emulator) instead of AWS.
+ */
+class SesMailTransport implements MailTransport {
+  readonly name: MailTransportName = 'ses';
+  private readonly region: string;
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+  private readonly sessionToken: string;
+  private readonly configurationSet: string;
+  private readonly endpoint: URL;
+
+  constructor(config: ConfigService) {
+    this.region = config.get<string>('SES_REGION') || config.get<string>('AWS_REGION');
+    this.accessKeyId = config.get<string>('AWS_ACCESS_KEY_ID');
+    this.secretAccessKey = config.get<string>('AWS_SECRET_ACCESS_KEY');
+    this.sessionToken = config.get<string>('AWS_SESSION_TOKEN');
+    this.configurationSet = config.get<string>('SES_CONFIGURATION_SET');
+    if (!this.region || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error('SES_REGION (or AWS_REGION), AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must be set when MAIL_TRANSPORT=ses');
+    }
+    this.endpoint = new URL('/v2/email/outbound-emails', config.get<string>('SES_ENDPOINT') || `https://email.${this.region}.amazonaws.com`);
+  }
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    const body = JSON.stringify({
+      FromEmailAddress: `"${message.from.name.replace(/"/g, '')}" <${message.from.address}>`,
+      Destination: { ToAddresses: message.to.split(',').map(address => address.trim()).filter(Boolean) },
+      Content: {
+        Simple: {
+          Subject: { Data: message.subject, Charset: 'UTF-8' },
+          Body: {
+            Html: { Data: message.html, Charset: 'UTF-8' },
+            Text: { Data: message.text, Charset: 'UTF-8' },
+          },
+        },
+      },
+      ConfigurationSetName: this.configurationSet || undefined,
+    });
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.signedHeaders(body),
+      body,
+    });
+    const responseText = await response.text();
+    if (!response.ok) {
+      throw new Error(`SES API error ${response.status}: ${responseText}`);
+    }
+    return { messageId: JSON.parse(responseText).MessageId };
+  }
+
+  close(): void {}
+
+  private signedHeaders(body: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.region}/ses/aws4_request`;
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      host: this.endpoint.host,
+      'x-amz-date': amzDate,
+    };
+    if (this.sessionToken) {
+      headers['x-amz-security-token'] = this.sessionToken;
+    }
+
+    const names = Object.keys(headers).sort();
+    const signedHeaderNames = names.join(';');
+    const canonicalRequest = [
+      'POST',
+      this.endpoint.pathname,
+      '',
+      names.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaderNames,
+      sha256(body),
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [dateStamp, this.region, 'ses', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${this.secretAccessKey}`);
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+    };
+  }
+}
+
+/**
+ * Writes each message to MAIL_OUTBOX_DIR (default DATA_DIR/outbox) as an .eml file plus a
+ * .json copy of the rendered parts, for local development and tests. Nothing is sent.
+ */
+class OutboxMailTransport implements MailTransport {
+  readonly name: MailTransportName = 'outbox';
+  private readonly dir: string;
+  private readonly builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(config: ConfigService) {
+    this.dir = config.get<string>('MAIL_OUTBOX_DIR') || path.join(getDataDir(), 'outbox');
+  }
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const info = await this.builder.sendMail(message);
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_').slice(0, 60);
+    // The random suffix keeps messages to the same recipient in the same millisecond apart (e.g. several approvers' emails)
+    const suffix = randomBytes(4).toString('hex');
+    const baseName = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}-${suffix}`);
+
+    fs.writeFileSync(`${baseName}.eml`, info.message as Buffer);
+    fs.writeFileSync(`${baseName}.json`, JSON.stringify({ ...message, messageId: info.messageId, createdAt: new Date().toISOString() }, null, 2));
+    return { messageId: info.messageId, location: `${baseName}.eml` };
+  }
+
+  close(): void {}
+}
+
+export function createMailTransport(name: MailTransportName, config: ConfigService): MailTransport {
+  switch (name) {
+    case 'gmail':
+    case 'smtp':
+      return new NodemailerMailTransport(name, config);
+    case 'ses':
+      return new SesMailTransport(config);
+    case 'outbox':
+      return new OutboxMailTransport(config);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}". Expected one of: ${MAIL_TRANSPORT_NAMES.join(', ')}`);
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
@@ -0,0 +1,67 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport, MailTransportName, MailDelivery, createMailTransport } from './mail-transports';
+import { RenderedEmail } from './email-template.service';
+
+/**
+ * Sends rendered emails through the transport picked by MAIL_TRANSPORT (gmail, smtp, ses or
+ * outbox), created once and reused, retrying failed sends with a progressive backoff
+ */
+@Injectable()
+export class MailerService implements OnModuleDestroy {
+  private readonly logger = new Logger(MailerService.name);
+  private readonly transport: MailTransport;
+  private readonly from: { name: string; address: string };
+
+  constructor(private readonly configService: ConfigService) {
+    const transportName = (this.configService.get<string>('MAIL_TRANSPORT') || 'gmail') as MailTransportName;
+    this.transport = createMailTransport(transportName, this.configService);
+    this.from = {
+      name: this.configService.get<string>('MAIL_FROM_NAME') || 'Content Creator Bot',
+      address: this.configService.get<string>('MAIL_FROM_ADDRESS')
+        || this.configService.get<string>('MAIL_USER')
+        || 'content-bot@localhost',
+    };
+    this.logger.log(`📮 Mail transport: ${transportName} (from "${this.from.name}" <${this.from.address}>)`);
+  }
+
+  onModuleDestroy() {
+    this.transport.close();
+  }
+
+  async send(recipientEmail: string, email: RenderedEmail, label: string): Promise<MailDelivery> {
+    const maxRetries = 3;
+    let lastError: Error;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        this.logger.log(`📧 Attempt ${attempt}/${maxRetries}: Sending ${label} to ${recipientEmail}`);
+
+        const delivery = await this.transport.send({
+          from: this.from,
+          to: recipientEmail,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+        });
+
+        this.logger.log(`✅ ${label} sent successfully to ${recipientEmail} on attempt ${attempt}${delivery.location ? ` (${delivery.location})` : ''}`);
+        return delivery; // Success, exit retry loop
+
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(`⚠️ ${label} attempt ${attempt}/${maxRetries} failed: ${error.message}`);
+
+        if (attempt < maxRetries) {
+          const waitTime = attempt * 2000; // Progressive backoff: 2s, 4s, 6s
+          this.logger.log(`⏳ Waiting ${waitTime}ms before retry...`);
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+        }
+      }
+    }
+
+    // If all retries failed, throw the last error
+    this.logger.error(`❌ All ${maxRetries} ${label} attempts failed. Last error: ${lastError.message}`);
+    throw new Error(`Email delivery failed after ${maxRetries} attempts: ${lastError.message}`);
+  }
+}
@@ -0,0 +1,201 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PendingContentService } from './pending-content.service';
+import { ApprovalMode } from './approval-policy.service';
+
+describe('PendingContentService action tokens', () => {
+  let dataDir: string;
+  let service: PendingContentService;
+
+  const createService = async (secret: string) => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PendingContentService,
+        { provide: ConfigService, useValue: new ConfigService({ APPROVAL_TOKEN_SECRET: secret }) },
+      ],
+    }).compile();
+    return moduleRef.get(PendingContentService);
+  };
+
+  const createContent = (approvers?: string[], mode: ApprovalMode = 'quorum', required = 2) => service.createPendingContent({
+    videoUrl: 'https://example.com/video.mp4',
+    caption: 'Caption',
+    hashtags: ['#one'],
+    recipientEmail: 'reviewer@example.com',
+    variants: [
+      { index: 0, caption: 'First', hashtags: ['#first'] },
+      { index: 1, caption: 'Second', hashtags: ['#second'] },
+    ],
+    approval: approvers ? { mode, required, approvers } : undefined,
+  });
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pending-content-'));
+    process.env.DATA_DIR = dataDir;
+    service = await createService('test-secret');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('accepts a token it created and returns its action, variant and approver', () => {
+    const content = createContent(['alex@example.com', 'sam@example.com']);
+    const token = service.createActionToken(content, 'approve', 1, 'alex@example.com');
+
+    const verification = service.verifyActionToken(token);
+
+    expect(verification).toMatchObject({ valid: true, action: 'approve', variant: 1, approver: 'alex@example.com' });
+    expect(verification.valid === true && verification.content.contentId).toBe(content.contentId);
+  });
+
+  it('rejects missing and malformed tokens', () => {
+    expect(service.verifyActionToken(undefined)).toEqual({ valid: false, reason: 'Missing or malformed approval token' });
+    expect(service.verifyActionToken('no-signature')).toEqual({ valid: false, reason: 'Missing or malformed approval token' });
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const content = createContent();
+    const [, signature] = service.createActionToken(content, 'reject').split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      cid: content.contentId,
+      act: 'approve',
+      exp: new Date(content.expiresAt).getTime(),
+    })).toString('base64url');
+
+    expect(service.verifyActionToken(`${forgedPayload}.${signature}`)).toEqual({ valid: false, reason: 'Invalid approval token signature' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const content = createContent();
+    const otherService = await createService('other-secret');
+
+    const verification = service.verifyActionToken(otherService.createActionToken(content, 'approve'));
+
+    expect(verification).toEqual({ valid: false, reason: 'Invalid approval token signature' });
+  });
+
+  it('treats a token as used once the content has been decided', () => {
+    const content = createContent();
+    const approveToken = service.createActionToken(content, 'approve', 0);
+    const rejectToken = service.createActionToken(content, 'reject');
+
+    service.markDecided(content.contentId, 'reject');
+
+    expect(service.verifyActionToken(rejectToken)).toEqual({ valid: false, reason: 'This content has already been rejected' });
+    expect(service.verifyActionToken(approveToken)).toEqual({ valid: false, reason: 'This content has already been rejected' });
+  });
+
+  it('reports expired links together with the content so it can be regenerated', () => {
+    const content = createContent();
+    const token = service.createActionToken(content, 'approve', 0);
+    jest.spyOn(Date, 'now').mockReturnValue(new Date(content.expiresAt).getTime() + 1000);
+
+    const verification = service.verifyActionToken(token);
+
+    expect(verification).toMatchObject({ valid: false, reason: 'This approval link has expired' });
+    expect(verification.valid === false && verification.expiredContent.contentId).toBe(content.contentId);
+  });
+
+  it('rejects a variant that does not exist on the content', () => {
+    const content = createContent();
+
+    expect(service.verifyActionToken(service.createActionToken(content, 'approve', 5)))
+      .toEqual({ valid: false, reason: 'The caption variant for this link no longer exists' });
+  });
+
+  describe('with an approval policy', () => {
+    it('only lets assigned approvers approve, but anyone with a link reject', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com']);
+
+      expect(service.verifyActionToken(service.createActionToken(content, 'approve', 0)))
+        .toEqual({ valid: false, reason: 'This content must be approved by its assigned approvers' });
+      expect(service.verifyActionToken(service.createActionToken(content, 'reject'))).toMatchObject({ valid: true, action: 'reject' });
+      expect(service.verifyActionToken(service.createActionToken(content, 'approve', 0, 'someone@example.com')))
+        .toEqual({ valid: false, reason: 'You are no longer an approver for this content' });
+    });
+
+    it('consumes only the deciding approver\'s links until the quorum is met', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com']);
+      const alexToken = service.createActionToken(content, 'approve', 0, 'alex@example.com');
+      const samToken = service.createActionToken(content, 'approve', 1, 'sam@example.com');
+
+      service.markDecided(content.contentId, 'approve', 0, undefined, 'alex@example.com');
+
+      expect(service.verifyActionToken(alexToken)).toEqual({ valid: false, reason: 'You have already approved this content' });
+      expect(service.verifyActionToken(samToken)).toMatchObject({ valid: true, approver: 'sam@example.com' });
+    });
+  });
+
+  describe('markDecided', () => {
+    it('publishes the chosen variant, with the approver\'s edits kept next to the generated text', () => {
+      const content = createContent();
+
+      const decided = service.markDecided(content.contentId, 'approve', 1, { caption: 'Edited', hashtags: ['#edited'], notes: 'Shorter' });
+
+      expect(decided).toMatchObject({
+        status: 'approved',
+        chosenVariant: 1,
+        caption: 'Edited',
+        hashtags: ['#edited'],
+        originalCaption: 'Second',
+        originalHashtags: ['#second'],
+        edited: true,
+        approverNotes: 'Shorter',
+      });
+    });
+
+    it('decides on the first approval in "any" mode', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com'], 'any', 1);
+
+      expect(service.markDecided(content.contentId, 'approve', 0, undefined, 'sam@example.com').status).toBe('approved');
+    });
+
+    it('waits for every approver in "all" mode and publishes the deciding approval\'s variant', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com'], 'all', 2);
+
+      const first = service.markDecided(content.contentId, 'approve', 0, undefined, 'alex@example.com');
+      expect(first.status).toBe('pending');
+      expect(first.caption).toBe('Caption');
+
+      const second = service.markDecided(content.contentId, 'approve', 1, undefined, 'sam@example.com');
+      expect(second).toMatchObject({ status: 'approved', chosenVariant: 1, caption: 'Second' });
+      expect(second.approvers.map(entry => entry.decision)).toEqual(['approve', 'approve']);
+    });
+
+    it('lets any rejection veto a quorum', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com', 'kim@example.com'], 'quorum', 2);
+
+      service.markDecided(content.contentId, 'approve', 0, undefined, 'alex@example.com');
+      const rejected = service.markDecided(content.contentId, 'reject', undefined, undefined, 'kim@example.com');
+
+      expect(rejected.status).toBe('rejected');
+    });
+
+    it('makes the backup approver\'s decision final', () => {
+      const content = service.createPendingContent({
+        videoUrl: 'https://example.com/video.mp4',
+        caption: 'Caption',
+        hashtags: [],
+        recipientEmail: 'reviewer@example.com',
+        approval: { mode: 'all', required: 2, approvers: ['alex@example.com', 'sam@example.com'], escalateTo: 'lead@example.com' },
+      });
+      service.escalate(content.contentId);
+
+      expect(service.markDecided(content.contentId, 'approve', undefined, undefined, 'lead@example.com').status).toBe('approved');
+    });
+
+    it('leaves content that is no longer pending untouched', () => {
+      const content = createContent(['alex@example.com', 'sam@example.com']);
+      service.markDecided(content.contentId, 'reject', undefined, undefined, 'alex@example.com');
+
+      expect(service.markDecided(content.contentId, 'approve', 0, undefined, 'sam@example.com')).toBeNull();
+      expect(service.getContent(content.contentId)).toMatchObject({ status: 'rejected' });
+    });
+  });
+});
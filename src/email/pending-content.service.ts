@@ -0,0 +1,413 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { JsonFileStore } from '../util/json-store';
+import { ApprovalRequest } from './approval-policy.service';
+import { ApprovalChannelName } from '../chat/chat-channels';
+import { ImageCrop } from '../image/image-crop';
+import { FitDecision, ImagePadding } from '../image/image-fit';
+
+export type ContentAction = 'approve' | 'reject';
+export type PendingContentStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface CaptionVariant {
+  index: number;
+  tone?: string;
+  caption: string;
+  hashtags: string[];
+}
+
+export interface ApproverDecision {
+  email: string;
+  decision?: ContentAction;
+  decidedAt?: string;
+  variant?: number;
+  edits?: ApprovalEdits;
+  escalation?: boolean; // Backup approver added after the deadline; their decision is final
+}
+
+export interface PendingContent {
+  contentId: string;
+  runId?: string;
+  videoUrl: string;
+  imageCrop?: ImageCrop; // Part of the source image the video was made from
+  imageFit?: FitDecision;
+  imagePadding?: ImagePadding; // Set instead of imageCrop when the whole image was kept
+  caption: string;
+  hashtags: string[]; // caption/hashtags become the chosen variant once approved
+  variants?: CaptionVariant[]; // All candidates offered to the approver, chosen or not
+  chosenVariant?: number;
+  originalCaption?: string; // What was generated, kept when the approver edits the text
+  originalHashtags?: string[];
+  edited?: boolean;
+  approverNotes?: string;
+  recipientEmail: string;
+  channels?: ApprovalChannelName[]; // Where the request was sent; email only when not set
+  approvalPolicy?: Omit<ApprovalRequest, 'approvers'>; // Set when approval is shared between approvers
+  approvers?: ApproverDecision[];
+  status: PendingContentStatus;
+  createdAt: string;
+  expiresAt: string; // Decision deadline, pushed back once when the request escalates
+  reminderHours?: number[]; // Hours after createdAt at which undecided approvers are reminded
+  remindersSent?: number;
+  escalateTo?: string; // Backup approver asked to decide when the deadline passes
+  escalatedAt?: string;
+  regeneratedRunId?: string; // Run queued from the expired approve/reject page
+  decidedAt?: string;
+  instagramResult?: { success: boolean; containerId?: string; message: string };
+}
+
+interface ActionTokenPayload {
+  cid: string;
+  act: ContentAction;
+  exp: number;
+  var?: number; // Caption variant an approve link is for
+  apr?: string; // Approver the link was sent to
+}
+
+export interface ApprovalEdits {
+  caption: string;
+  hashtags: string[];
+  notes?: string;
+}
+
+export type TokenVerification =
+  | { valid: true; content: PendingContent; action: ContentAction; variant?: number; approver?: string }
+  | { valid: false; reason: string; expiredContent?: PendingContent }; // expiredContent: a genuine link that missed the deadline
+
+/**
+ * Hours parsed from a comma separated env value such as "24,48"
+ */
+function parseHours(value: string | undefined): number[] {
+  return (value || '')
+    .split(',')
+    .map(part => parseFloat(part))
+    .filter(hours => hours > 0)
+    .sort((a, b) => a - b);
+}
+
+@Injectable()
+export class PendingContentService {
+  private readonly logger = new Logger(PendingContentService.name);
+  private readonly store = new JsonFileStore<PendingContent>('pending-content');
+  private readonly secret: string;
+  private readonly ttlMs: number;
+  private readonly reminderHours: number[];
+  private readonly escalationEmail: string;
+  private readonly escalationTtlMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.secret = this.configService.get<string>('APPROVAL_TOKEN_SECRET');
+    if (!this.secret) {
+      // Links signed with a random secret stop working after a restart, so only acceptable for local dev
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn('⚠️ APPROVAL_TOKEN_SECRET is not set - using a random secret, approval links will not survive a restart');
+    }
+
+    const ttlHours = parseFloat(this.configService.get<string>('APPROVAL_TOKEN_TTL_HOURS') || '72');
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+    this.reminderHours = parseHours(this.configService.get<string>('APPROVAL_REMINDER_HOURS'));
+    this.escalationEmail = this.configService.get<string>('APPROVAL_ESCALATION_EMAIL');
+    const escalationHours = parseFloat(this.configService.get<string>('APPROVAL_ESCALATION_TTL_HOURS') || '24');
+    this.escalationTtlMs = escalationHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Store content waiting for an approve/reject decision
+   */
+  createPendingContent(data: {
+    videoUrl: string;
+    caption: string;
+    hashtags: string[];
+    recipientEmail: string;
+    runId?: string;
+    variants?: CaptionVariant[];
+    approval?: ApprovalRequest;
+    channels?: ApprovalChannelName[];
+    imageCrop?: ImageCrop;
+    imageFit?: FitDecision;
+    imagePadding?: ImagePadding;
+  }): PendingContent {
+    const now = Date.now();
+    const { approval, variants, ...fields } = data;
+    const ttlMs = approval?.ttlHours ? approval.ttlHours * 60 * 60 * 1000 : this.ttlMs;
+    const content: PendingContent = {
+      contentId: randomUUID(),
+      ...fields,
+      recipientEmail: approval ? approval.approvers.join(', ') : fields.recipientEmail,
+      // A single candidate is just the caption, so only keep variants when there is a choice
+      variants: variants?.length > 1 ? variants.map(({ index, tone, caption, hashtags }) => ({ index, tone, caption, hashtags })) : undefined,
+      approvalPolicy: approval ? { policyName: approval.policyName, mode: approval.mode, required: approval.required } : undefined,
+      approvers: approval ? approval.approvers.map(email => ({ email })) : undefined,
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+      // Reminders only make sense before the deadline
+      reminderHours: (approval?.reminderHours ? [...approval.reminderHours].sort((a, b) => a - b) : this.reminderHours)
+        .filter(hours => hours * 60 * 60 * 1000 < ttlMs),
+      remindersSent: 0,
+      escalateTo: approval?.escalateTo || this.escalationEmail || undefined,
+    };
+    this.store.set(content.contentId, content);
+    this.logger.log(`🗳️ Pending content ${content.contentId} stored (expires ${content.expiresAt})`);
+    return content;
+  }
+
+  getContent(contentId: string): PendingContent | null {
+    return this.store.get(contentId);
+  }
+
+  /**
+   * All content records, newest first
+   */
+  listContent(): PendingContent[] {
+    return this.store.getAll().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Create an opaque signed token that authorizes a single action on a content record
+   */
+  createActionToken(content: PendingContent, action: ContentAction, variant?: number, approver?: string): string {
+    const payload: ActionTokenPayload = {
+      cid: content.contentId,
+      act: action,
+      exp: new Date(content.expiresAt).getTime(),
+      var: variant,
+      apr: approver,
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${this.sign(encodedPayload)}`;
+  }
+
+  /**
+   * Check signature, deadline and that the referenced content has not been decided yet
+   */
+  verifyActionToken(token: string): TokenVerification {
+    const decoded = this.decodeToken(token);
+    if ('reason' in decoded) {
+      return { valid: false, reason: decoded.reason };
+    }
+
+    const { payload } = decoded;
+    const content = this.store.get(payload.cid);
+    if (!content) {
+      return { valid: false, reason: 'The content for this link no longer exists' };
+    }
+
+    // Links sent before an escalation keep their original expiry, so check both deadlines
+    if (this.isPastDeadline(content) || Date.now() > payload.exp) {
+      return { valid: false, reason: 'This approval link has expired', expiredContent: content };
+    }
+
+    if (content.status !== 'pending') {
+      return { valid: false, reason: `This content has already been ${content.status}` };
+    }
+
+    if (payload.var !== undefined && !content.variants?.some(variant => variant.index === payload.var)) {
+      return { valid: false, reason: 'The caption variant for this link no longer exists' };
+    }
+
+    if (content.approvers) {
+      const approver = payload.apr && content.approvers.find(entry => entry.email === payload.apr);
+      if (payload.apr && !approver) {
+        return { valid: false, reason: 'You are no longer an approver for this content' };
+      }
+      if (approver && approver.decision) {
+        return { valid: false, reason: `You have already ${approver.decision === 'approve' ? 'approved' : 'rejected'} this content` };
+      }
+      // Anyone with a link may veto, but approvals have to come from the assigned approvers
+      if (!approver && payload.act === 'approve') {
+        return { valid: false, reason: 'This content must be approved by its assigned approvers' };
+      }
+    }
+
+    return { valid: true, content, action: payload.act, variant: payload.var, approver: payload.apr };
+  }
+
+  /**
+   * Accept an otherwise genuine link for content that missed its deadline, so it can be regenerated
+   */
+  verifyRegenerationToken(token: string): { valid: true; content: PendingContent } | { valid: false; reason: string } {
+    const decoded = this.decodeToken(token);
+    if ('reason' in decoded) {
+      return { valid: false, reason: decoded.reason };
+    }
+
+    const content = this.store.get(decoded.payload.cid);
+    if (!content) {
+      return { valid: false, reason: 'The content for this link no longer exists' };
+    }
+    if (!this.isPastDeadline(content)) {
+      return { valid: false, reason: 'This content can still be decided, so it cannot be regenerated' };
+    }
+    if (!content.runId) {
+      return { valid: false, reason: 'This content was not created by a workflow run and cannot be regenerated' };
+    }
+    if (content.regeneratedRunId) {
+      return { valid: false, reason: `This content has already been regenerated (job ${content.regeneratedRunId})` };
+    }
+    return { valid: true, content };
+  }
+
+  /**
+   * Pending content whose deadline has passed, or content already marked expired
+   */
+  isPastDeadline(content: PendingContent): boolean {
+    return content.status === 'expired' || (content.status === 'pending' && Date.now() > new Date(content.expiresAt).getTime());
+  }
+
+  /**
+   * Returns null once the content has been decided, so no reminder goes out for it
+   */
+  recordRemindersSent(contentId: string, remindersSent: number): PendingContent | null {
+    const content = this.store.get(contentId);
+    if (!content || content.status !== 'pending') {
+      return null;
+    }
+    content.remindersSent = remindersSent;
+    this.store.set(contentId, content);
+    return content;
+  }
+
+  /**
+   * Hand an undecided request to the backup approver with a fresh deadline. Links sent
+   * earlier stop working; the backup approver's decision is final even under a policy.
+   * Returns null when the content was decided (or escalated) in the meantime.
+   */
+  escalate(contentId: string): PendingContent | null {
+    const content = this.store.get(contentId);
+    if (!content || content.status !== 'pending' || !content.escalateTo || content.escalatedAt) {
+      return null;
+    }
+
+    const now = Date.now();
+    content.escalatedAt = new Date(now).toISOString();
+    content.expiresAt = new Date(now + this.escalationTtlMs).toISOString();
+    if (content.approvers) {
+      const existing = content.approvers.find(entry => entry.email === content.escalateTo);
+      if (existing) {
+        existing.escalation = true;
+      } else {
+        content.approvers.push({ email: content.escalateTo, escalation: true });
+      }
+    }
+    this.store.set(contentId, content);
+    this.logger.log(`⏫ Content ${contentId} escalated to ${content.escalateTo} (expires ${content.expiresAt})`);
+    return content;
+  }
+
+  /**
+   * Returns null when the content was decided in the meantime, which keeps that decision
+   */
+  markExpired(contentId: string): PendingContent | null {
+    const content = this.store.get(contentId);
+    if (!content || content.status !== 'pending') {
+      return null;
+    }
+    content.status = 'expired';
+    content.decidedAt = new Date().toISOString();
+    this.store.set(contentId, content);
+    this.logger.log(`⌛ Content ${contentId} expired without a decision`);
+    return content;
+  }
+
+  markRegenerated(contentId: string, runId: string): PendingContent | null {
+    const content = this.store.get(contentId);
+    if (!content) {
+      return null;
+    }
+    content.status = 'expired';
+    content.regeneratedRunId = runId;
+    this.store.set(contentId, content);
+    return content;
+  }
+
+  /**
+   * Record the decision, which consumes every outstanding token for the content.
+   * Approving a variant makes it the caption/hashtags that get published, and edits
+   * made on the approval form replace them while the generated text is kept alongside.
+   * With an approval policy the content stays pending until the policy is met; the
+   * approval that meets it decides the published text, and any rejection vetoes.
+   * Returns null when the content is no longer pending (decided or expired in the meantime).
+   */
+  markDecided(
+    contentId: string,
+    action: ContentAction,
+    variant?: number,
+    edits?: ApprovalEdits,
+    approverEmail?: string,
+  ): PendingContent | null {
+    const content = this.store.get(contentId);
+    if (!content || content.status !== 'pending') {
+      return null;
+    }
+
+    const approver = approverEmail && content.approvers?.find(entry => entry.email === approverEmail);
+    if (approver) {
+      approver.decision = action;
+      approver.decidedAt = new Date().toISOString();
+      approver.variant = variant;
+      approver.edits = edits;
+
+      const approvals = content.approvers.filter(entry => entry.decision === 'approve').length;
+      if (action === 'approve' && !approver.escalation && approvals < content.approvalPolicy.required) {
+        this.store.set(contentId, content);
+        this.logger.log(`🗳️ Content ${contentId} approved by ${approverEmail} (${approvals}/${content.approvalPolicy.required})`);
+        return content;
+      }
+    }
+    const chosen = action === 'approve' && variant !== undefined
+      ? content.variants?.find(candidate => candidate.index === variant)
+      : undefined;
+    if (chosen) {
+      content.chosenVariant = chosen.index;
+      content.caption = chosen.caption;
+      content.hashtags = chosen.hashtags;
+    }
+    if (action === 'approve' && edits) {
+      content.originalCaption = content.caption;
+      content.originalHashtags = content.hashtags;
+      content.edited = edits.caption !== content.caption || edits.hashtags.join(' ') !== content.hashtags.join(' ');
+      content.caption = edits.caption;
+      content.hashtags = edits.hashtags;
+      content.approverNotes = edits.notes;
+    }
+    content.status = action === 'approve' ? 'approved' : 'rejected';
+    content.decidedAt = new Date().toISOString();
+    this.store.set(contentId, content);
+    this.logger.log(`🗳️ Content ${contentId} ${content.status}`);
+    return content;
+  }
+
+  recordInstagramResult(contentId: string, instagramResult: PendingContent['instagramResult']): void {
+    const content = this.store.get(contentId);
+    if (!content) {
+      return;
+    }
+    content.instagramResult = instagramResult;
+    this.store.set(contentId, content);
+  }
+
+  private decodeToken(token: string): { payload: ActionTokenPayload } | { reason: string } {
+    if (!token || !token.includes('.')) {
+      return { reason: 'Missing or malformed approval token' };
+    }
+
+    const [encodedPayload, signature] = token.split('.');
+    const expected = Buffer.from(this.sign(encodedPayload));
+    const actual = Buffer.from(signature || '');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { reason: 'Invalid approval token signature' };
+    }
+
+    try {
+      return { payload: JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) };
+    } catch {
+      return { reason: 'Malformed approval token payload' };
+    }
+  }
+
+  private sign(encodedPayload: string): string {
+    return createHmac('sha256', this.secret).update(encodedPayload).digest('base64url');
+  }
+}
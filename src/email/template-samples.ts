@@ -0,0 +1,137 @@
+/**
+ * Sample data for GET /email-approval/preview/:template, shaped like the data each template
+ * gets when it is rendered for real
+ */
+const SAMPLE_CONTENT_ID = '3f2b8c1e-5d4a-4b7e-9c21-8a6f0e2d1b34';
+const SAMPLE_VIDEO_URL = 'https://example.com/videos/sample-reel.mp4';
+const SAMPLE_CAPTION = 'Golden hour hits different when the whole city slows down with you ✨ Where are you watching the sunset tonight?';
+const SAMPLE_HASHTAGS = '#sunset #goldenhour #citylife #travelgram #reels';
+const SAMPLE_DEADLINE = 'Wed, 21 Oct 2026 12:00:00 GMT';
+const SAMPLE_ACTION_URL = 'https://example.com/email-approval/content-action?token=sample';
+
+const contentReview = {
+  videoUrl: SAMPLE_VIDEO_URL,
+  crop: { strategy: 'subject', size: '1125x2000', position: '1410, 0', source: '3000x2000', keptPercent: 38, subject: 'two people on a rooftop' },
+  caption: SAMPLE_CAPTION,
+  hashtags: SAMPLE_HASHTAGS,
+  variants: [
+    { number: 1, tone: 'casual', caption: SAMPLE_CAPTION, hashtags: SAMPLE_HASHTAGS, approveUrl: `${SAMPLE_ACTION_URL}&option=1` },
+    { number: 2, tone: 'inspirational', caption: 'Every sunset is a reminder that endings can be beautiful too 🌅', hashtags: '#sunset #inspiration #reels', approveUrl: `${SAMPLE_ACTION_URL}&option=2` },
+  ],
+  approveUrl: SAMPLE_ACTION_URL,
+  rejectUrl: SAMPLE_ACTION_URL,
+  policy: { required: 2, total: 3 },
+  deadline: SAMPLE_DEADLINE,
+  escalationPending: true,
+};
+
+export const TEMPLATE_SAMPLES: Record<string, object> = {
+  'email-approval-request': {
+    recipientName: 'there',
+    approveUrl: 'https://example.com/email-approval/action?type=approve',
+    rejectUrl: 'https://example.com/email-approval/action?type=reject',
+  },
+  'email-content-delivery': contentReview,
+  'email-content-reminder': contentReview,
+  'email-content-escalation': {
+    ...contentReview,
+    policy: undefined,
+    escalationPending: false,
+    crop: undefined,
+    padding: { style: 'blurred copy of the image', cropLossPercent: 81, auto: true },
+  },
+  'email-content-result': {
+    contentId: SAMPLE_CONTENT_ID,
+    approved: true,
+    videoUrl: SAMPLE_VIDEO_URL,
+    caption: SAMPLE_CAPTION,
+    hashtags: SAMPLE_HASHTAGS,
+    edited: true,
+    instagram: { success: true, containerId: '17890012345678901', message: 'Video uploaded to Instagram and published successfully' },
+    approvers: [
+      { email: 'alex@example.com', decision: 'approve' },
+      { email: 'sam@example.com', decision: 'approve' },
+      { email: 'jordan@example.com', decision: 'no decision' },
+    ],
+    decidedAt: 'Mon, 19 Oct 2026 15:30:00 GMT',
+  },
+  'page-review': {
+    token: 'sample',
+    contentId: SAMPLE_CONTENT_ID,
+    videoUrl: SAMPLE_VIDEO_URL,
+    variant: { number: 2, total: 3 },
+    errors: ['Caption is empty'],
+    caption: SAMPLE_CAPTION,
+    hashtags: SAMPLE_HASHTAGS,
+    notes: '',
+  },
+  'page-approved': {
+    contentId: SAMPLE_CONTENT_ID,
+    decidedAt: '10/19/2026, 3:30:00 PM',
+    instagram: { success: true, containerId: '17890012345678901', message: 'Video uploaded to Instagram and published successfully' },
+    videoUrl: SAMPLE_VIDEO_URL,
+    chosenVariant: { number: 2, total: 3 },
+    caption: SAMPLE_CAPTION,
+    hashtags: SAMPLE_HASHTAGS,
+    edited: true,
+  },
+  'page-confirm-reject': { token: 'sample', contentId: SAMPLE_CONTENT_ID, videoUrl: SAMPLE_VIDEO_URL },
+  'page-rejected': { contentId: SAMPLE_CONTENT_ID, decidedAt: '10/19/2026, 3:30:00 PM' },
+  'page-approval-recorded': { contentId: SAMPLE_CONTENT_ID, approvals: 1, required: 2 },
+  'page-expired': {
+    contentId: SAMPLE_CONTENT_ID,
+    message: 'Nobody decided on this content before the deadline, so it can no longer be published. The video link may have expired too.',
+    regenerateToken: 'sample',
+  },
+  'page-invalid-link': { reason: 'This content has already been approved' },
+  'page-regenerating': { runId: '7c9e6679-7425-40de-944b-e07fc1f90ae7' },
+  'page-dashboard': {
+    tabs: [
+      { label: 'All', href: '/dashboard', count: 2, active: true },
+      { label: 'Pending', href: '/dashboard?status=pending', count: 1, active: false },
+      { label: 'Published', href: '/dashboard?status=published', count: 1, active: false },
+    ],
+    notice: '✅ Content approved - Instagram: Video uploaded to Instagram and published successfully',
+    items: [
+      {
+        contentId: SAMPLE_CONTENT_ID,
+        runId: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+        videoUrl: SAMPLE_VIDEO_URL,
+        status: 'pending',
+        statusLabel: 'PENDING',
+        createdAt: '10/19/2026, 9:00:00 AM',
+        expiresAt: '10/21/2026, 9:00:00 AM',
+        variants: contentReview.variants.map((variant, index) => ({ ...variant, chosen: false, number: index + 1 })),
+        approvals: {
+          policyName: 'marketing',
+          approved: 1,
+          required: 2,
+          approvers: [
+            { icon: '✅', email: 'alex@example.com', decidedAt: '10/19/2026, 11:00:00 AM' },
+            { icon: '⏳', email: 'sam@example.com' },
+          ],
+        },
+        deadline: { remindersSent: 1 },
+        actions: [{ path: 'action', token: 'sample', label: '❌ Reject', className: 'reject' }],
+      },
+      {
+        contentId: '9a1c4e7b-2f3d-4c8a-b6e5-1d0f7a9c3e52',
+        videoUrl: SAMPLE_VIDEO_URL,
+        status: 'published',
+        statusLabel: 'PUBLISHED',
+        createdAt: '10/18/2026, 9:00:00 AM',
+        decidedAt: '10/18/2026, 2:15:00 PM',
+        caption: SAMPLE_CAPTION,
+        hashtags: SAMPLE_HASHTAGS,
+        edit: { title: 'Edited before approval - originally:', caption: 'Sunset over the city', hashtags: '#sunset', notes: 'Warmer tone' },
+        instagram: {
+          message: 'Video uploaded to Instagram and published successfully',
+          container: { containerId: '17890012345678901', status: 'published', statusCode: 'FINISHED', publishedAt: '10/18/2026, 2:20:00 PM', mediaId: '17912345678901234' },
+        },
+        actions: [],
+      },
+    ],
+  },
+  'page-confirm-action': { label: 'Approve', verb: 'approve', type: 'approve', color: '#4CAF50' },
+  'page-confirm-result': { color: 'green', message: '✅ Request Approved Successfully!' },
+};
@@ -0,0 +1,32 @@
+import { cropAround, cropSize } from './image-crop';
+
+describe('image crop geometry', () => {
+  const portrait = { width: 9, height: 16 };
+
+  describe('cropSize', () => {
+    it('crops the width of images wider than the target ratio', () => {
+      expect(cropSize(1920, 1080, portrait)).toEqual({ width: 608, height: 1080 });
+    });
+
+    it('crops the height of images taller than the target ratio', () => {
+      expect(cropSize(1000, 3000, portrait)).toEqual({ width: 1000, height: 1778 });
+    });
+
+    it('keeps images that already have the target ratio', () => {
+      expect(cropSize(1080, 1920, portrait)).toEqual({ width: 1080, height: 1920 });
+    });
+  });
+
+  describe('cropAround', () => {
+    const size = { width: 608, height: 1080 };
+
+    it('centers the crop on the point', () => {
+      expect(cropAround(960, 540, size, 1920, 1080)).toEqual({ left: 656, top: 0, width: 608, height: 1080 });
+    });
+
+    it('keeps the crop inside the source near its edges', () => {
+      expect(cropAround(10, 540, size, 1920, 1080)).toMatchObject({ left: 0, top: 0 });
+      expect(cropAround(1910, 540, size, 1920, 1080)).toMatchObject({ left: 1312, top: 0 });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+export type CropStrategy = 'center' | 'attention' | 'entropy' | 'focal-point' | 'subject';
+
+export const CROP_STRATEGIES: CropStrategy[] = ['center', 'attention', 'entropy', 'focal-point', 'subject'];
+
+export interface CropOptions {
+  strategy?: CropStrategy; // Defaults to IMAGE_CROP_STRATEGY / "center"
+  focalPoint?: { x: number; y: number }; // Fractions (0-1) of the source size, required for "focal-point"
+}
+
+export interface CropRectangle {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The part of the source image that was kept, in source pixels
+ */
+export interface ImageCrop extends CropRectangle {
+  strategy: CropStrategy; // What produced the rectangle; "attention" when subject detection failed
+  sourceWidth: number;
+  sourceHeight: number;
+  focalPoint?: { x: number; y: number };
+  subject?: CropRectangle & { label?: string }; // Box Gemini found, in source pixels
+  fallbackReason?: string;
+}
+
+/**
+ * Largest rectangle with the target ratio that fits the source
+ */
+export function cropSize(sourceWidth: number, sourceHeight: number, targetRatio: { width: number; height: number }) {
+  const desiredRatio = targetRatio.width / targetRatio.height;
+  return sourceWidth / sourceHeight > desiredRatio
+    ? { width: Math.round(sourceHeight * desiredRatio), height: sourceHeight } // Image too wide, crop width
+    : { width: sourceWidth, height: Math.round(sourceWidth / desiredRatio) }; // Image too tall, crop height
+}
+
+/**
+ * Place a crop of the given size as close to centered on (x, y) as the source edges allow
+ */
+export function cropAround(
+  x: number,
+  y: number,
+  size: { width: number; height: number },
+  sourceWidth: number,
+  sourceHeight: number,
+): CropRectangle {
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max);
+  return {
+    left: clamp(x - size.width / 2, sourceWidth - size.width),
+    top: clamp(y - size.height / 2, sourceHeight - size.height),
+    width: size.width,
+    height: size.height,
+  };
+}
@@ -0,0 +1,50 @@
+import { containCanvas, cropLoss, isHexColor, placeInside } from './image-fit';
+
+describe('image fit geometry', () => {
+  const portrait = { width: 9, height: 16 };
+
+  describe('cropLoss', () => {
+    it('is zero when the source already has the target ratio', () => {
+      expect(cropLoss(1080, 1920, portrait)).toBe(0);
+    });
+
+    it('grows as the source moves away from the target ratio', () => {
+      expect(cropLoss(3000, 2000, portrait)).toBeCloseTo(0.625);
+      expect(cropLoss(1920, 1080, portrait)).toBeCloseTo(0.684, 3);
+    });
+  });
+
+  describe('containCanvas', () => {
+    it('pads a wide source vertically and keeps its resolution', () => {
+      expect(containCanvas(1080, 1080, portrait)).toEqual({ width: 1080, height: 1920 });
+    });
+
+    it('pads a tall source horizontally', () => {
+      expect(containCanvas(900, 3200, portrait, 4000)).toEqual({ width: 1800, height: 3200 });
+    });
+
+    it('caps the long edge of the canvas', () => {
+      expect(containCanvas(6000, 1000, portrait)).toEqual({ width: 1080, height: 1920 });
+    });
+  });
+
+  describe('placeInside', () => {
+    it('scales the source to fit and centers it on the canvas', () => {
+      expect(placeInside(1920, 1080, { width: 1080, height: 1920 })).toEqual({ left: 0, top: 656, width: 1080, height: 608 });
+    });
+
+    it('never places the source outside the canvas', () => {
+      const placement = placeInside(1001, 999, { width: 9, height: 16 });
+      expect(placement.left + placement.width).toBeLessThanOrEqual(9);
+      expect(placement.top + placement.height).toBeLessThanOrEqual(16);
+    });
+  });
+
+  it('recognizes short and long hex colors only', () => {
+    expect(isHexColor('#fff')).toBe(true);
+    expect(isHexColor('#1A2b3C')).toBe(true);
+    expect(isHexColor('fff')).toBe(false);
+    expect(isHexColor('#ffff')).toBe(false);
+    expect(isHexColor('red')).toBe(false);
+  });
+});
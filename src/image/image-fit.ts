@@ -0,0 +1,89 @@
+import { CropRectangle } from './image-crop';
+
+export type FitMode = 'crop' | 'contain' | 'auto';
+export type PaddingStyle = 'blur' | 'solid' | 'gradient';
+
+export const FIT_MODES: FitMode[] = ['crop', 'contain', 'auto'];
+export const PADDING_STYLES: PaddingStyle[] = ['blur', 'solid', 'gradient'];
+
+export interface FitOptions {
+  mode?: FitMode; // Defaults to IMAGE_FIT_MODE / "crop"
+  padding?: PaddingStyle; // How contain fills the canvas, defaults to "blur"
+  color?: string; // Solid fill, or where the gradient starts (#rgb / #rrggbb); defaults to the brand color
+  gradientTo?: string; // Where the gradient ends
+  autoThreshold?: number; // auto pads when a crop would cut away more than this share of the image
+}
+
+/**
+ * How the whole image was placed when it was padded rather than cropped
+ */
+export interface ImagePadding {
+  style: PaddingStyle;
+  color?: string;
+  gradientTo?: string;
+  image: CropRectangle; // Where the source sits on the output canvas
+}
+
+export interface FitDecision {
+  mode: 'crop' | 'contain';
+  requested: FitMode;
+  cropLoss: number; // Share of the source a crop to the target ratio cuts away (0-1)
+  threshold?: number; // Set when the mode was chosen automatically
+}
+
+export const DEFAULT_AUTO_THRESHOLD = 0.65; // 3:2 photos still crop to 9:16, 16:9 and wider get padded
+export const DEFAULT_PADDING_COLOR = '#111111';
+export const DEFAULT_GRADIENT_TO = '#444444';
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Share of the image a crop to the target ratio would discard
+ */
+export function cropLoss(sourceWidth: number, sourceHeight: number, targetRatio: { width: number; height: number }): number {
+  const sourceRatio = sourceWidth / sourceHeight;
+  const desiredRatio = targetRatio.width / targetRatio.height;
+  return 1 - Math.min(sourceRatio, desiredRatio) / Math.max(sourceRatio, desiredRatio);
+}
+
+/**
+ * Canvas with the target ratio that holds the whole source. Without a fixed output size the
+ * source keeps its resolution, but the canvas is capped so panoramas don't become huge.
+ */
+export function containCanvas(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetRatio: { width: number; height: number },
+  maxLongEdge = 1920,
+): { width: number; height: number } {
+  const desiredRatio = targetRatio.width / targetRatio.height;
+  let width = sourceWidth / sourceHeight > desiredRatio ? sourceWidth : sourceHeight * desiredRatio;
+  let height = width / desiredRatio;
+  const scale = Math.min(1, maxLongEdge / Math.max(width, height));
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+  return { width, height };
+}
+
+/**
+ * Largest placement of the source inside the canvas, centered
+ */
+export function placeInside(
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: { width: number; height: number },
+): CropRectangle {
+  const scale = Math.min(canvas.width / sourceWidth, canvas.height / sourceHeight);
+  const width = Math.min(Math.round(sourceWidth * scale), canvas.width);
+  const height = Math.min(Math.round(sourceHeight * scale), canvas.height);
+  return {
+    left: Math.round((canvas.width - width) / 2),
+    top: Math.round((canvas.height - height) / 2),
+    width,
+    height,
+  };
+}
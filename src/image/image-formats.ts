@@ -0,0 +1,53 @@
+export type ImageFormatName = 'reel' | 'feed' | 'square' | 'landscape' | 'story';
+export type ImageOutputType = 'jpeg' | 'png' | 'webp';
+
+export interface ImageFormatPreset {
+  name: ImageFormatName;
+  description: string;
+  ratio: { width: number; height: number };
+  size: { width: number; height: number }; // Final pixel size, same ratio as `ratio`
+  output: { type: ImageOutputType; quality: number }; // quality is ignored for png
+}
+
+/**
+ * Named output formats for the places a converted image ends up
+ */
+export const IMAGE_FORMAT_PRESETS: Record<ImageFormatName, ImageFormatPreset> = {
+  reel: {
+    name: 'reel',
+    description: 'Instagram Reel / video source, 9:16',
+    ratio: { width: 9, height: 16 },
+    size: { width: 1080, height: 1920 },
+    output: { type: 'jpeg', quality: 90 },
+  },
+  feed: {
+    name: 'feed',
+    description: 'Instagram feed portrait post, 4:5',
+    ratio: { width: 4, height: 5 },
+    size: { width: 1080, height: 1350 },
+    output: { type: 'jpeg', quality: 90 },
+  },
+  square: {
+    name: 'square',
+    description: 'Square feed post, 1:1',
+    ratio: { width: 1, height: 1 },
+    size: { width: 1080, height: 1080 },
+    output: { type: 'jpeg', quality: 90 },
+  },
+  landscape: {
+    name: 'landscape',
+    description: 'Landscape post or thumbnail, 16:9',
+    ratio: { width: 16, height: 9 },
+    size: { width: 1920, height: 1080 },
+    output: { type: 'jpeg', quality: 85 },
+  },
+  story: {
+    name: 'story',
+    description: 'Instagram Story, 9:16',
+    ratio: { width: 9, height: 16 },
+    size: { width: 1080, height: 1920 },
+    output: { type: 'jpeg', quality: 85 },
+  },
+};
+
+export const IMAGE_FORMAT_NAMES = Object.keys(IMAGE_FORMAT_PRESETS) as ImageFormatName[];
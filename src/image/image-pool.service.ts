@@ -0,0 +1,196 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from '../util/json-store';
+
+export type ImageSelectionStrategy = 'least-recently-used' | 'round-robin' | 'weighted-random' | 'never-reuse';
+
+export const IMAGE_SELECTION_STRATEGIES: ImageSelectionStrategy[] = [
+  'least-recently-used',
+  'round-robin',
+  'weighted-random',
+  'never-reuse',
+];
+
+export interface PoolImage {
+  imageId: string;
+  url: string;
+  tags: string[];
+  enabled: boolean;
+  weight: number; // Only used by weighted-random
+  useCount: number;
+  lastUsedAt?: string;
+  lastRunId?: string;
+  addedAt: string;
+}
+
+export interface ImageSelection {
+  tag?: string;
+  strategy?: ImageSelectionStrategy;
+}
+
+// Seeded into an empty pool on first start only, so emptying the pool on purpose sticks
+const SEED_IMAGE_URLS = [
+  'https://drive.google.com/file/d/1vjDOt5iDdm8OzZT6mrq95hvRRXKZkLpL/view?usp=drive_link',
+];
+
+const ROUND_ROBIN_STATE_ID = 'round-robin';
+const SEED_STATE_ID = 'seed';
+
+@Injectable()
+export class ImagePoolService {
+  private readonly logger = new Logger(ImagePoolService.name);
+  private readonly images = new JsonFileStore<PoolImage>('image-pool');
+  private readonly state = new JsonFileStore<{ lastImageId?: string; seededAt?: string }>('image-pool-state');
+  private readonly defaultStrategy: ImageSelectionStrategy;
+
+  constructor() {
+    const configured = process.env.IMAGE_SELECTION_STRATEGY as ImageSelectionStrategy;
+    this.defaultStrategy = IMAGE_SELECTION_STRATEGIES.includes(configured) ? configured : 'least-recently-used';
+
+    // An existing pool without the marker (created before it existed) is only marked, not seeded
+    if (!this.state.get(SEED_STATE_ID)) {
+      if (this.images.getAll().length === 0) {
+        SEED_IMAGE_URLS.forEach(url => this.addImage(url));
+      }
+      this.state.set(SEED_STATE_ID, { seededAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * All images, in the order they were added
+   */
+  listImages(tag?: string): PoolImage[] {
+    return this.images
+      .getAll()
+      .filter(image => !tag || image.tags.includes(tag))
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+  }
+
+  getImage(imageId: string): PoolImage {
+    const image = this.images.get(imageId);
+    if (!image) {
+      throw new NotFoundException(`Image ${imageId} not found`);
+    }
+    return image;
+  }
+
+  findImageByUrl(url: string): PoolImage | null {
+    return this.images.getAll().find(image => image.url === url) || null;
+  }
+
+  addImage(url: string, options: { tags?: string[]; weight?: number; enabled?: boolean } = {}): PoolImage {
+    if (!url) {
+      throw new BadRequestException('Image URL is required.');
+    }
+
+    const existing = this.findImageByUrl(url);
+    if (existing) {
+      return existing;
+    }
+
+    const image: PoolImage = {
+      imageId: randomUUID(),
+      url,
+      tags: options.tags || [],
+      enabled: options.enabled ?? true,
+      weight: options.weight ?? 1,
+      useCount: 0,
+      addedAt: new Date().toISOString(),
+    };
+    this.images.set(image.imageId, image);
+    this.logger.log(`📸 Added image to pool: ${url}`);
+    return image;
+  }
+
+  updateImage(imageId: string, changes: { tags?: string[]; weight?: number; enabled?: boolean }): PoolImage {
+    const image = this.getImage(imageId);
+    if (changes.tags !== undefined) image.tags = changes.tags;
+    if (changes.weight !== undefined) image.weight = changes.weight;
+    if (changes.enabled !== undefined) image.enabled = changes.enabled;
+    this.images.set(imageId, image);
+    return image;
+  }
+
+  removeImage(imageId: string): void {
+    if (!this.images.delete(imageId)) {
+      throw new NotFoundException(`Image ${imageId} not found`);
+    }
+    this.logger.log(`🗑️ Removed image ${imageId} from pool`);
+  }
+
+  /**
+   * Replace the pool with the given URLs, keeping usage stats for URLs that stay
+   */
+  replaceImages(urls: string[]): PoolImage[] {
+    for (const image of this.images.getAll()) {
+      if (!urls.includes(image.url)) {
+        this.images.delete(image.imageId);
+      }
+    }
+    urls.forEach(url => this.addImage(url));
+    this.logger.log(`📸 Image pool replaced (${urls.length} images)`);
+    return this.listImages();
+  }
+
+  /**
+   * Pick the next image to post from the enabled images (optionally restricted to a tag)
+   */
+  selectImage(selection: ImageSelection = {}): PoolImage {
+    const strategy = selection.strategy || this.defaultStrategy;
+    if (!IMAGE_SELECTION_STRATEGIES.includes(strategy)) {
+      throw new BadRequestException(`Invalid image selection strategy. Expected one of: ${IMAGE_SELECTION_STRATEGIES.join(', ')}`);
+    }
+
+    const candidates = this.listImages(selection.tag).filter(image => image.enabled);
+    if (candidates.length === 0) {
+      throw new BadRequestException(`No enabled images in the pool${selection.tag ? ` with tag "${selection.tag}"` : ''}`);
+    }
+
+    let selected: PoolImage;
+    switch (strategy) {
+      case 'round-robin': {
+        const { lastImageId } = this.state.get(ROUND_ROBIN_STATE_ID) || {};
+        const lastIndex = candidates.findIndex(image => image.imageId === lastImageId);
+        selected = candidates[(lastIndex + 1) % candidates.length];
+        this.state.set(ROUND_ROBIN_STATE_ID, { lastImageId: selected.imageId });
+        break;
+      }
+      case 'weighted-random': {
+        const totalWeight = candidates.reduce((sum, image) => sum + Math.max(image.weight, 0), 0);
+        let roll = Math.random() * totalWeight;
+        selected = candidates.find(image => (roll -= Math.max(image.weight, 0)) < 0) || candidates[candidates.length - 1];
+        break;
+      }
+      case 'never-reuse': {
+        selected = candidates.find(image => image.useCount === 0);
+        if (!selected) {
+          throw new BadRequestException('Every image in the pool has already been used (never-reuse strategy)');
+        }
+        break;
+      }
+      case 'least-recently-used':
+      default: {
+        // Never-used images first, then the one posted longest ago
+        selected = [...candidates].sort((a, b) => (a.lastUsedAt || '').localeCompare(b.lastUsedAt || ''))[0];
+        break;
+      }
+    }
+
+    this.logger.log(`🎯 Selected image ${selected.imageId} using ${strategy} strategy`);
+    return selected;
+  }
+
+  /**
+   * Record that an image was used for a workflow run (matched by URL so manual picks count too)
+   */
+  recordUsage(url: string, runId?: string): void {
+    const image = this.images.getAll().find(candidate => candidate.url === url);
+    if (!image) {
+      return;
+    }
+    image.useCount++;
+    image.lastUsedAt = new Date().toISOString();
+    image.lastRunId = runId;
+    this.images.set(image.imageId, image);
+  }
+}
@@ -1,17 +1,49 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, Get, Post } from '@nestjs/common';
 import { ImageService } from './image.service';
 import { CaptionOptions } from '../util/caption-helper';
+import { IMAGE_FORMAT_PRESETS, ImageFormatName } from './image-formats';
+import { CropOptions } from './image-crop';
+import { FitOptions } from './image-fit';
+
+export class ConvertImageDto {
+  imageUrl: string;
+  format?: ImageFormatName;
+  formats?: ImageFormatName[]; // Several presets from one download; `image` is the first
+  crop?: CropOptions;
+  fit?: FitOptions; // Crop (default), pad with "contain", or let "auto" decide from the ratio difference
+}
 
 @Controller('image')
 export class ImageController {
   constructor(private readonly imageService: ImageService) {}
 
+  @Get('formats')
+  listFormats() {
+    return { formats: Object.values(IMAGE_FORMAT_PRESETS) };
+  }
+
   @Post('aspect-ratio')
-  async convertAspectRatio(@Body('imageUrl') imageUrl: string) {
-    const convertedImageBase64 = await this.imageService.convertImageToAspectRatio(imageUrl);
+  async convertAspectRatio(@Body() convertDto: ConvertImageDto) {
+    const formats = convertDto.formats || (convertDto.format ? [convertDto.format] : undefined);
+    if (!formats) {
+      const converted = await this.imageService.convertImageToAspectRatio(convertDto.imageUrl, undefined, convertDto.crop, convertDto.fit);
+      return {
+        message: 'Image converted successfully to 9:16 aspect ratio.',
+        image: converted.image,
+        fit: converted.fit,
+        crop: converted.crop,
+        padding: converted.padding,
+      };
+    }
+
+    const images = await this.imageService.convertImageToFormats(convertDto.imageUrl, formats, convertDto.crop, convertDto.fit);
     return {
-      message: 'Image converted successfully to 9:16 aspect ratio.',
-      image: convertedImageBase64,
+      message: `Image converted successfully to ${images.map(image => `${image.format} (${image.width}x${image.height}, ${image.fit.mode})`).join(', ')}.`,
+      image: images[0].image,
+      fit: images[0].fit,
+      crop: images[0].crop,
+      padding: images[0].padding,
+      images,
     };
   }
 
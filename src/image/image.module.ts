@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { ImageController } from './image.controller';
 import { ImageService } from './image.service';
+import { ImagePoolService } from './image-pool.service';
 
 @Module({
   controllers: [ImageController],
-  providers: [ImageService],
-  exports: [ImageService], 
+  providers: [ImageService, ImagePoolService],
+  exports: [ImageService, ImagePoolService], 
 })
 export class ImageModule {}
\ No newline at end of file
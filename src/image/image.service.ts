@@ -4,6 +4,42 @@ import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
 import { generateInstagramContentFromImage, CaptionOptions } from '../util/caption-helper';
+import { detectSubjectBox, SubjectBox } from '../util/gemini-helper';
+import { IMAGE_FORMAT_NAMES, IMAGE_FORMAT_PRESETS, ImageFormatName, ImageFormatPreset } from './image-formats';
+import { CROP_STRATEGIES, CropOptions, CropRectangle, CropStrategy, ImageCrop, cropAround, cropSize } from './image-crop';
+import {
+  DEFAULT_AUTO_THRESHOLD,
+  DEFAULT_GRADIENT_TO,
+  DEFAULT_PADDING_COLOR,
+  FIT_MODES,
+  FitDecision,
+  FitMode,
+  FitOptions,
+  ImagePadding,
+  PADDING_STYLES,
+  containCanvas,
+  cropLoss,
+  isHexColor,
+  placeInside,
+} from './image-fit';
+
+export interface ConvertedImage {
+  format?: ImageFormatName; // Unset for a plain aspect ratio conversion
+  width: number;
+  height: number;
+  mimeType: string;
+  image: string; // base64 data URI
+  fit: FitDecision;
+  crop?: ImageCrop; // Set when the image was cropped
+  padding?: ImagePadding; // Set when the whole image was kept on a padded canvas
+}
+
+interface SourceImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  subject?: Promise<SubjectBox>; // Detected once per image, shared by every format
+}
 
 @Injectable()
 export class ImageService {
@@ -71,77 +107,336 @@ export class ImageService {
   }
 
   /**
-   * Converts an image to 9:16 aspect ratio and returns as base64
+   * Converts an image to 9:16 aspect ratio (or another ratio), cropped with the given strategy
+   * or padded to keep the whole image
    */
   async convertImageToAspectRatio(
     imageUrl: string,
     targetRatio = { width: 9, height: 16 },
-  ): Promise<string> {
+    cropOptions?: CropOptions,
+    fitOptions?: FitOptions,
+  ): Promise<ConvertedImage> {
+    this.validateCropOptions(cropOptions);
+    this.validateFitOptions(fitOptions);
     try {
-      if (!imageUrl) {
-        throw new BadRequestException('Image URL is required.');
-      }
+      const source = await this.loadImage(imageUrl);
+      const { pipeline, ...result } = await this.fitToRatio(source, targetRatio, undefined, cropOptions, fitOptions);
 
-      if (!this.isValidImageUrl(imageUrl)) {
-        throw new BadRequestException('Invalid image URL provided.');
+      // Process image
+      const processedBuffer = await pipeline
+        .jpeg({ quality: 90 })
+        .toBuffer();
+
+      console.log('✅ Image processed successfully');
+
+      // Convert to base64 with data URI prefix
+      return {
+        ...result,
+        mimeType: 'image/jpeg',
+        image: `data:image/jpeg;base64,${processedBuffer.toString('base64')}`,
+      };
+    } catch (error) {
+      console.error('❌ Error in convertImageToAspectRatio:', error);
+      if (error instanceof BadRequestException) {
+        throw error;
       }
+      throw new BadRequestException('Failed to process image.');
+    }
+  }
 
-      console.log('📥 Downloading image from:', imageUrl);
-      
-      // Download image
-      const imageBuffer = await this.downloadImage(imageUrl);
+  /**
+   * Converts an image to one or more named format presets, downloading it only once.
+   * Results come back in the order the formats were requested.
+   */
+  async convertImageToFormats(
+    imageUrl: string,
+    formats: ImageFormatName[],
+    cropOptions?: CropOptions,
+    fitOptions?: FitOptions,
+  ): Promise<ConvertedImage[]> {
+    const presets = this.resolveFormats(formats);
+    this.validateCropOptions(cropOptions);
+    this.validateFitOptions(fitOptions);
+    try {
+      const source = await this.loadImage(imageUrl);
+      const converted: ConvertedImage[] = [];
 
-      // Get image metadata
-      const metadata = await sharp(imageBuffer).metadata();
-      const { width, height } = metadata;
+      for (const preset of presets) {
+        const { type, quality } = preset.output;
+        const { pipeline, ...result } = await this.fitToRatio(source, preset.ratio, preset.size, cropOptions, fitOptions);
+        const buffer = await (type === 'png' ? pipeline.png() : pipeline.toFormat(type, { quality })).toBuffer();
 
-      if (!width || !height) {
-        throw new BadRequestException('Invalid image metadata.');
+        console.log(`🖼️ Rendered ${preset.name} format at ${result.width}x${result.height} (${type}, ${result.fit.mode})`);
+        converted.push({
+          format: preset.name,
+          ...result,
+          mimeType: `image/${type}`,
+          image: `data:image/${type};base64,${buffer.toString('base64')}`,
+        });
       }
 
-      console.log(`📐 Original dimensions: ${width}x${height}`);
+      return converted;
+    } catch (error) {
+      console.error('❌ Error in convertImageToFormats:', error);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to process image.');
+    }
+  }
 
-      const originalRatio = width / height;
-      const desiredRatio = targetRatio.width / targetRatio.height;
+  /**
+   * Rejects unknown format names; an undefined list is allowed (callers fall back to 9:16)
+   */
+  validateFormats(formats?: ImageFormatName[]): void {
+    if (formats !== undefined) {
+      this.resolveFormats(formats);
+    }
+  }
 
-      let targetWidth: number, targetHeight: number, offsetX = 0, offsetY = 0;
+  validateCropOptions(cropOptions?: CropOptions): void {
+    if (!cropOptions) {
+      return;
+    }
+    if (cropOptions.strategy && !CROP_STRATEGIES.includes(cropOptions.strategy)) {
+      throw new BadRequestException(`Invalid crop strategy "${cropOptions.strategy}". Expected one of: ${CROP_STRATEGIES.join(', ')}`);
+    }
+    const { focalPoint } = cropOptions;
+    if (focalPoint && !(focalPoint.x >= 0 && focalPoint.x <= 1 && focalPoint.y >= 0 && focalPoint.y <= 1)) {
+      throw new BadRequestException('focalPoint x and y must be fractions between 0 and 1');
+    }
+    if (cropOptions.strategy === 'focal-point' && !focalPoint) {
+      throw new BadRequestException('The focal-point crop strategy needs a focalPoint');
+    }
+  }
 
-      if (originalRatio > desiredRatio) {
-        // Image too wide, crop width
-        targetHeight = height;
-        targetWidth = Math.round(height * desiredRatio);
-        offsetX = Math.round((width - targetWidth) / 2);
-      } else {
-        // Image too tall, crop height
-        targetWidth = width;
-        targetHeight = Math.round(width / desiredRatio);
-        offsetY = Math.round((height - targetHeight) / 2);
+  validateFitOptions(fitOptions?: FitOptions): void {
+    if (!fitOptions) {
+      return;
+    }
+    if (fitOptions.mode && !FIT_MODES.includes(fitOptions.mode)) {
+      throw new BadRequestException(`Invalid fit mode "${fitOptions.mode}". Expected one of: ${FIT_MODES.join(', ')}`);
+    }
+    if (fitOptions.padding && !PADDING_STYLES.includes(fitOptions.padding)) {
+      throw new BadRequestException(`Invalid padding "${fitOptions.padding}". Expected one of: ${PADDING_STYLES.join(', ')}`);
+    }
+    for (const field of ['color', 'gradientTo'] as const) {
+      if (fitOptions[field] !== undefined && !isHexColor(fitOptions[field])) {
+        throw new BadRequestException(`${field} must be a hex color such as #1a2b3c`);
       }
+    }
+    if (fitOptions.autoThreshold !== undefined && !(fitOptions.autoThreshold >= 0 && fitOptions.autoThreshold <= 1)) {
+      throw new BadRequestException('autoThreshold must be between 0 and 1');
+    }
+  }
 
-      console.log(`✂️ Cropping to: ${targetWidth}x${targetHeight} (offset: ${offsetX}, ${offsetY})`);
+  private resolveFormats(formats: ImageFormatName[]): ImageFormatPreset[] {
+    if (!Array.isArray(formats) || formats.length === 0) {
+      throw new BadRequestException(`At least one image format is required. Expected: ${IMAGE_FORMAT_NAMES.join(', ')}`);
+    }
+    const unknown = formats.filter(format => !IMAGE_FORMAT_NAMES.includes(format));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown image format(s): ${unknown.join(', ')}. Expected: ${IMAGE_FORMAT_NAMES.join(', ')}`);
+    }
+    return [...new Set(formats)].map(format => IMAGE_FORMAT_PRESETS[format]);
+  }
 
-      // Process image
-      const processedBuffer = await sharp(imageBuffer)
-        .extract({ left: offsetX, top: offsetY, width: targetWidth, height: targetHeight })
-        .jpeg({ quality: 90 })
+  /**
+   * Validates and downloads the image and reads its dimensions
+   */
+  private async loadImage(imageUrl: string): Promise<SourceImage> {
+    if (!imageUrl) {
+      throw new BadRequestException('Image URL is required.');
+    }
+
+    if (!this.isValidImageUrl(imageUrl)) {
+      throw new BadRequestException('Invalid image URL provided.');
+    }
+
+    console.log('📥 Downloading image from:', imageUrl);
+    
+    // Download image
+    const buffer = await this.downloadImage(imageUrl);
+
+    // Get image metadata
+    const { width, height } = await sharp(buffer).metadata();
+
+    if (!width || !height) {
+      throw new BadRequestException('Invalid image metadata.');
+    }
+
+    console.log(`📐 Original dimensions: ${width}x${height}`);
+    return { buffer, width, height };
+  }
+
+  /**
+   * Crop or pad the source to the target ratio, resized to `size` when given. "auto" pads
+   * when a crop would cut away more than the threshold, and crops otherwise.
+   */
+  private async fitToRatio(
+    source: SourceImage,
+    targetRatio: { width: number; height: number },
+    size: { width: number; height: number } | undefined,
+    cropOptions?: CropOptions,
+    fitOptions: FitOptions = {},
+  ): Promise<{ pipeline: sharp.Sharp; width: number; height: number; fit: FitDecision; crop?: ImageCrop; padding?: ImagePadding }> {
+    const requested = fitOptions.mode || (process.env.IMAGE_FIT_MODE as FitMode) || 'crop';
+    const loss = Math.round(cropLoss(source.width, source.height, targetRatio) * 1000) / 1000;
+    const fit: FitDecision = { mode: requested === 'contain' ? 'contain' : 'crop', requested, cropLoss: loss };
+    if (requested === 'auto') {
+      const envThreshold = parseFloat(process.env.IMAGE_FIT_AUTO_THRESHOLD);
+      fit.threshold = fitOptions.autoThreshold ?? (envThreshold >= 0 && envThreshold <= 1 ? envThreshold : DEFAULT_AUTO_THRESHOLD);
+      fit.mode = loss > fit.threshold ? 'contain' : 'crop';
+      console.log(`🤖 Auto fit: a crop would lose ${Math.round(loss * 100)}% (threshold ${Math.round(fit.threshold * 100)}%), using ${fit.mode}`);
+    } else if (!FIT_MODES.includes(requested)) {
+      throw new BadRequestException(`Invalid fit mode "${requested}". Expected one of: ${FIT_MODES.join(', ')}`);
+    }
+
+    if (fit.mode === 'crop') {
+      const crop = await this.computeCrop(source, targetRatio, cropOptions);
+      const pipeline = this.extractCrop(source, crop);
+      return size
+        ? { pipeline: pipeline.resize(size.width, size.height, { fit: 'cover' }), ...size, fit, crop }
+        : { pipeline, width: crop.width, height: crop.height, fit, crop };
+    }
+
+    const canvas = size || containCanvas(source.width, source.height, targetRatio);
+    const { padding, pipeline } = await this.padToCanvas(source, canvas, fitOptions);
+    return { pipeline, width: canvas.width, height: canvas.height, fit, padding };
+  }
+
+  /**
+   * Keep the whole image, centered on a canvas filled with a blurred copy of it, a solid
+   * color or a vertical gradient
+   */
+  private async padToCanvas(
+    source: SourceImage,
+    canvas: { width: number; height: number },
+    fitOptions: FitOptions,
+  ): Promise<{ pipeline: sharp.Sharp; padding: ImagePadding }> {
+    const style = fitOptions.padding || 'blur';
+    const placement = placeInside(source.width, source.height, canvas);
+    const foreground = await sharp(source.buffer).resize(placement.width, placement.height, { fit: 'fill' }).toBuffer();
+    const padding: ImagePadding = { style, image: placement };
+
+    let background: Buffer;
+    if (style === 'blur') {
+      background = await sharp(source.buffer)
+        .resize(canvas.width, canvas.height, { fit: 'cover' })
+        .blur(40)
+        .modulate({ brightness: 0.8 }) // Darken a little so the sharp copy stands out
         .toBuffer();
+    } else if (style === 'gradient') {
+      padding.color = fitOptions.color || DEFAULT_PADDING_COLOR;
+      padding.gradientTo = fitOptions.gradientTo || DEFAULT_GRADIENT_TO;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">`
+        + '<defs><linearGradient id="fill" x1="0" y1="0" x2="0" y2="1">'
+        + `<stop offset="0" stop-color="${padding.color}"/><stop offset="1" stop-color="${padding.gradientTo}"/>`
+        + '</linearGradient></defs><rect width="100%" height="100%" fill="url(#fill)"/></svg>';
+      background = await sharp(Buffer.from(svg)).png().toBuffer();
+    } else {
+      padding.color = fitOptions.color || DEFAULT_PADDING_COLOR;
+      background = await sharp({
+        create: { width: canvas.width, height: canvas.height, channels: 3, background: padding.color },
+      }).png().toBuffer();
+    }
 
-      console.log('✅ Image processed successfully');
+    console.log(`🧩 Padding to: ${canvas.width}x${canvas.height} (${style}, image at ${placement.left}, ${placement.top})`);
+    const pipeline = sharp(background)
+      .flatten({ background: padding.color || DEFAULT_PADDING_COLOR })
+      .composite([{ input: foreground, left: placement.left, top: placement.top }]);
+    return { pipeline, padding };
+  }
 
-      // Convert to base64 with data URI prefix
-      const base64Image = `data:image/jpeg;base64,${processedBuffer.toString('base64')}`;
+  /**
+   * Works out which part of the source to keep for the target ratio. The crop is as large
+   * as the ratio allows; the strategy only decides where it sits.
+   */
+  private async computeCrop(
+    source: SourceImage,
+    targetRatio: { width: number; height: number },
+    cropOptions: CropOptions = {},
+  ): Promise<ImageCrop> {
+    const { width, height } = source;
+    const size = cropSize(width, height, targetRatio);
+    const strategy = cropOptions.strategy || (process.env.IMAGE_CROP_STRATEGY as CropStrategy) || 'center';
+    const result = (rect: CropRectangle, extra: Partial<ImageCrop> = {}): ImageCrop => {
+      const crop = { strategy, ...rect, sourceWidth: width, sourceHeight: height, ...extra };
+      console.log(`✂️ Cropping to: ${crop.width}x${crop.height} (offset: ${crop.left}, ${crop.top}, ${crop.strategy})`);
+      return crop;
+    };
 
-      return base64Image;
-    } catch (error) {
-      console.error('❌ Error in convertImageToAspectRatio:', error);
-      if (error instanceof BadRequestException) {
-        throw error;
+    switch (strategy) {
+      case 'center':
+        return result(cropAround(width / 2, height / 2, size, width, height));
+
+      case 'attention':
+      case 'entropy':
+        return result(await this.sharpStrategyCrop(source, size, strategy));
+
+      case 'focal-point': {
+        const focalPoint = cropOptions.focalPoint;
+        return result(cropAround(focalPoint.x * width, focalPoint.y * height, size, width, height), { focalPoint });
       }
-      throw new BadRequestException('Failed to process image.');
+
+      case 'subject':
+        try {
+          source.subject = source.subject || this.detectSubject(source);
+          const box = await source.subject;
+          const subject = {
+            left: Math.round(box.left * width),
+            top: Math.round(box.top * height),
+            width: Math.round(box.width * width),
+            height: Math.round(box.height * height),
+            label: box.label,
+          };
+          return result(cropAround(subject.left + subject.width / 2, subject.top + subject.height / 2, size, width, height), { subject });
+        } catch (error) {
+          // A failed lookup shouldn't fail the conversion; sharp's saliency detection is the next best guess
+          console.warn(`⚠️ Subject detection failed, using attention crop: ${error.message}`);
+          return result(await this.sharpStrategyCrop(source, size, 'attention'), { strategy: 'attention', fallbackReason: error.message });
+        }
+
+      default:
+        throw new BadRequestException(`Invalid crop strategy "${strategy}". Expected one of: ${CROP_STRATEGIES.join(', ')}`);
     }
   }
 
+  /**
+   * Let sharp place the crop with its attention (saliency) or entropy heuristic. Resizing to
+   * the crop size keeps the scale at 1, so the reported offsets are in source pixels.
+   */
+  private async sharpStrategyCrop(
+    source: SourceImage,
+    size: { width: number; height: number },
+    strategy: 'attention' | 'entropy',
+  ): Promise<CropRectangle> {
+    const { info } = await sharp(source.buffer)
+      .resize(size.width, size.height, { fit: 'cover', position: sharp.strategy[strategy] })
+      .toBuffer({ resolveWithObject: true });
+    // sharp reports the offsets as negative numbers
+    return {
+      left: Math.abs(info.cropOffsetLeft || 0),
+      top: Math.abs(info.cropOffsetTop || 0),
+      width: size.width,
+      height: size.height,
+    };
+  }
+
+  /**
+   * Gemini gets a downscaled copy; the box comes back relative to the image size
+   */
+  private async detectSubject(source: SourceImage): Promise<SubjectBox> {
+    const preview = await sharp(source.buffer)
+      .resize(1024, 1024, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return detectSubjectBox(preview, 'image/jpeg');
+  }
 
+  private extractCrop(source: SourceImage, crop: CropRectangle): sharp.Sharp {
+    return sharp(source.buffer).extract({ left: crop.left, top: crop.top, width: crop.width, height: crop.height });
+  }
 
   /**
    * Generates Instagram caption and hashtags directly from image URL (without generating prompt first)
@@ -156,9 +451,9 @@ export class ImageService {
         throw new BadRequestException('Invalid image URL provided.');
       }
 
-      console.log('🎬 Generating Instagram content directly from image URL using Gemini Vision:', imageUrl);
+      console.log('🎬 Generating Instagram content directly from image URL:', imageUrl);
 
-      // Use Gemini Vision API to generate Instagram content directly from the image
+      // Use a vision-capable caption provider to generate Instagram content directly from the image
       const instagramContent = await generateInstagramContentFromImage(imageUrl, {
         maxHashtags: 15,
         tone: 'casual',
@@ -172,11 +467,16 @@ export class ImageService {
         caption: instagramContent.caption,
         hashtags: instagramContent.hashtags,
         fullContent: instagramContent.fullContent,
+        validation: instagramContent.validation,
         metadata: {
           captionLength: instagramContent.caption.length,
           hashtagCount: instagramContent.hashtags.length,
           generatedAt: new Date().toISOString(),
-          imageUrl: imageUrl
+          imageUrl: imageUrl,
+          provider: instagramContent.provider,
+          model: instagramContent.model,
+          usage: instagramContent.usage,
+          failedProviders: instagramContent.attempts
         }
       };
     } catch (error) {
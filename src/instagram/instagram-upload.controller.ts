@@ -1,40 +1,12 @@
-import { Controller, Get, Post, Body, Query, Logger } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { InstagramUploadService } from './instagram-upload.service';
 
-export class CreateInstagramContainerDto {
-  videoUrl: string;
-  caption: string;
-}
-
 @Controller('instagram')
 export class InstagramUploadController {
-  private readonly logger = new Logger(InstagramUploadController.name);
-
   constructor(
     private readonly instagramUploadService: InstagramUploadService
   ) {}
 
-  /**
-   * Manually trigger Instagram container creation
-   * POST /instagram/create-container
-   */
-  @Post('create-container')
-  async createContainer(@Body() createContainerDto: CreateInstagramContainerDto) {
-    this.logger.log(`📱 Manual Instagram container creation requested`);
-    this.logger.log(`🎬 Video URL: ${createContainerDto.videoUrl}`);
-    this.logger.log(`📝 Caption: ${createContainerDto.caption.substring(0, 100)}...`);
-    
-    const result = await this.instagramUploadService.createInstagramContainer(
-      createContainerDto.videoUrl,
-      createContainerDto.caption
-    );
-    
-    return {
-      ...result,
-      timestamp: new Date().toISOString()
-    };
-  }
-
   /**
    * Get status of a specific container
    * GET /instagram/container-status?containerId=123
@@ -62,7 +34,7 @@ export class InstagramUploadController {
       containerId,
       found: true,
       ...status,
-      timeElapsed: Date.now() - status.createdAt.getTime()
+      timeElapsed: Date.now() - new Date(status.createdAt).getTime()
     };
   }
 
@@ -77,7 +49,7 @@ export class InstagramUploadController {
     return {
       containers: containers.map(container => ({
         ...container,
-        timeElapsed: Date.now() - container.createdAt.getTime()
+        timeElapsed: Date.now() - new Date(container.createdAt).getTime()
       })),
       count: containers.length,
       timestamp: new Date().toISOString()
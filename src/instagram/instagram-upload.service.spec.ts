@@ -0,0 +1,193 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../util/json-store';
+import { ContainerInfo, InstagramUploadService } from './instagram-upload.service';
+
+describe('InstagramUploadService', () => {
+  const originalEnv = process.env;
+  let dataDir: string;
+  let get: jest.SpyInstance;
+  let post: jest.SpyInstance;
+
+  const statusResponses = (...codes: string[]) => {
+    for (const code of codes) {
+      get.mockResolvedValueOnce({ data: { status_code: code, status: code === 'ERROR' ? 'Unsupported video codec' : undefined } });
+    }
+  };
+  const storeContainer = (container: Pick<ContainerInfo, 'status'> & Partial<ContainerInfo>) =>
+    new JsonFileStore<ContainerInfo>('instagram-containers').set(container.containerId || 'c1', {
+      containerId: 'c1',
+      videoUrl: 'https://example.com/v.mp4',
+      caption: 'Caption',
+      createdAt: new Date().toISOString(),
+      ...container,
+    });
+  const publishCalls = () => post.mock.calls.filter(([url]) => String(url).endsWith('/media_publish'));
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'instagram-'));
+    process.env = {
+      ...originalEnv,
+      DATA_DIR: dataDir,
+      INSTAGRAM_ACCESS_TOKEN: 'token',
+      INSTAGRAM_ACCOUNT_ID: 'account',
+      INSTAGRAM_STATUS_POLL_INTERVAL_MS: '10000',
+      INSTAGRAM_STATUS_POLL_MAX_INTERVAL_MS: '20000',
+      INSTAGRAM_PUBLISH_TIMEOUT_MS: '600000',
+    };
+    jest.useFakeTimers();
+    get = jest.spyOn(axios, 'get');
+    post = jest.spyOn(axios, 'post').mockImplementation(async (url: string) => ({
+      data: { id: url.endsWith('/media_publish') ? 'media-1' : 'c1' },
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    process.env = originalEnv;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('polls with backoff until the container is finished, then publishes it', async () => {
+    const service = new InstagramUploadService();
+    statusResponses('IN_PROGRESS', 'IN_PROGRESS', 'IN_PROGRESS', 'FINISHED');
+
+    await service.createInstagramContainer('https://example.com/v.mp4', 'Caption');
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(get).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(get).toHaveBeenCalledTimes(2);
+    // 10s grows to 15s, then is capped at 20s
+    await jest.advanceTimersByTimeAsync(14999);
+    expect(get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(get).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(20000);
+
+    expect(get).toHaveBeenCalledTimes(4);
+    expect(publishCalls()).toHaveLength(1);
+    expect(service.getContainerStatus('c1')).toMatchObject({ status: 'published', mediaId: 'media-1', statusCode: 'FINISHED' });
+  });
+
+  it('fails the container with Instagram\'s detail when processing errors', async () => {
+    const service = new InstagramUploadService();
+    statusResponses('ERROR');
+
+    await service.createInstagramContainer('https://example.com/v.mp4', 'Caption');
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(publishCalls()).toHaveLength(0);
+    expect(service.getContainerStatus('c1')).toMatchObject({
+      status: 'failed',
+      error: 'Container processing ERROR: Unsupported video codec',
+    });
+  });
+
+  it('gives up when the container is still processing at the publish timeout', async () => {
+    process.env.INSTAGRAM_PUBLISH_TIMEOUT_MS = '25000';
+    const service = new InstagramUploadService();
+    get.mockResolvedValue({ data: { status_code: 'IN_PROGRESS' } });
+
+    await service.createInstagramContainer('https://example.com/v.mp4', 'Caption');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(service.getContainerStatus('c1')).toMatchObject({ status: 'failed', error: 'Container was still IN_PROGRESS after 25s' });
+  });
+
+  describe('startup recovery', () => {
+    it('re-arms containers at their stored publish time', async () => {
+      storeContainer({ status: 'processing', publishAt: new Date(Date.now() + 30000).toISOString() });
+      statusResponses('FINISHED');
+
+      new InstagramUploadService().onModuleInit();
+      await jest.advanceTimersByTimeAsync(29999);
+      expect(get).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(publishCalls()).toHaveLength(1);
+    });
+
+    it('checks a container stored as ready again instead of publishing it twice', async () => {
+      storeContainer({ status: 'ready', statusCode: 'FINISHED', publishAt: new Date(Date.now() - 1000).toISOString() });
+      statusResponses('PUBLISHED');
+      const service = new InstagramUploadService();
+
+      service.onModuleInit();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(publishCalls()).toHaveLength(0);
+      expect(service.getContainerStatus('c1')).toMatchObject({ status: 'published', statusCode: 'PUBLISHED' });
+    });
+
+    it('publishes a container stored as ready that Instagram has not published yet', async () => {
+      storeContainer({ status: 'ready', statusCode: 'FINISHED', publishAt: new Date(Date.now() - 1000).toISOString() });
+      statusResponses('FINISHED');
+      const service = new InstagramUploadService();
+
+      service.onModuleInit();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(publishCalls()).toHaveLength(1);
+      expect(service.getContainerStatus('c1')).toMatchObject({ status: 'published', mediaId: 'media-1' });
+    });
+
+    it('publishes containers that fell due while the server was down straight away', async () => {
+      storeContainer({ status: 'processing', publishAt: new Date(Date.now() - 5 * 60000).toISOString() });
+      statusResponses('FINISHED');
+
+      new InstagramUploadService().onModuleInit();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(publishCalls()).toHaveLength(1);
+    });
+
+    it('schedules records without a publish time from their creation time', async () => {
+      storeContainer({ status: 'pending', createdAt: new Date(Date.now() - 4000).toISOString() });
+      statusResponses('FINISHED');
+
+      new InstagramUploadService().onModuleInit();
+      await jest.advanceTimersByTimeAsync(5999);
+      expect(get).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(publishCalls()).toHaveLength(1);
+    });
+
+    it('publishes a container once even when it is scheduled twice', async () => {
+      storeContainer({ status: 'processing', publishAt: new Date(Date.now() - 1000).toISOString() });
+      statusResponses('FINISHED');
+      const service = new InstagramUploadService();
+
+      service.onModuleInit();
+      service.onModuleInit();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(publishCalls()).toHaveLength(1);
+    });
+
+    it('keeps container history across restarts, newest first', async () => {
+      statusResponses('FINISHED');
+      await new InstagramUploadService().createInstagramContainer('https://example.com/v.mp4', 'Caption');
+      await jest.advanceTimersByTimeAsync(10000);
+      storeContainer({ containerId: 'c0', status: 'failed', createdAt: new Date(Date.now() - 60000).toISOString() });
+
+      const containers = new InstagramUploadService().getAllContainers();
+
+      expect(containers.map(container => [container.containerId, container.status])).toEqual([['c1', 'published'], ['c0', 'failed']]);
+    });
+
+    it('leaves published and failed containers alone', async () => {
+      storeContainer({ status: 'failed' });
+
+      new InstagramUploadService().onModuleInit();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,18 +1,54 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import axios from 'axios';
+import { JsonFileStore } from '../util/json-store';
+
+export type ContainerStatusCode = 'IN_PROGRESS' | 'FINISHED' | 'ERROR' | 'EXPIRED' | 'PUBLISHED';
 
 export interface ContainerInfo {
   containerId: string;
   videoUrl: string;
   caption: string;
-  createdAt: Date;
+  createdAt: string;
   status: 'pending' | 'processing' | 'ready' | 'published' | 'failed';
+  publishAt?: string; // When the first processing status check is due
+  publishedAt?: string;
+  mediaId?: string;
+  statusCode?: ContainerStatusCode;
+  lastCheckedAt?: string;
+  error?: string;
 }
 
 @Injectable()
-export class InstagramUploadService {
+export class InstagramUploadService implements OnModuleInit {
   private readonly logger = new Logger(InstagramUploadService.name);
-  private containers: Map<string, ContainerInfo> = new Map();
+  // Container records double as the pending publish jobs, so both survive restarts
+  private readonly containers = new JsonFileStore<ContainerInfo>('instagram-containers');
+  private readonly publishing = new Set<string>();
+
+  // Container processing poll settings (milliseconds) - backoff grows from the initial to the max interval
+  private readonly pollInitialInterval = parseInt(process.env.INSTAGRAM_STATUS_POLL_INTERVAL_MS || '10000', 10);
+  private readonly pollMaxInterval = parseInt(process.env.INSTAGRAM_STATUS_POLL_MAX_INTERVAL_MS || '60000', 10);
+  private readonly publishTimeout = parseInt(process.env.INSTAGRAM_PUBLISH_TIMEOUT_MS || '600000', 10);
+
+  /**
+   * Startup sweeper: finish publishes that were due while the server was down
+   * and re-arm timers for the ones that are still in the future
+   */
+  onModuleInit() {
+    const unfinished = this.containers
+      .getAll()
+      .filter(container => ['pending', 'processing', 'ready'].includes(container.status));
+
+    for (const container of unfinished) {
+      const publishAt = container.publishAt
+        ? new Date(container.publishAt).getTime()
+        : new Date(container.createdAt).getTime() + this.pollInitialInterval;
+      const delay = Math.max(0, publishAt - Date.now());
+
+      this.logger.log(`♻️ Recovered container ${container.containerId} - publishing in ${Math.round(delay / 1000)}s`);
+      this.scheduleContainerPublishing(container.containerId, delay);
+    }
+  }
 
   /**
    * Step 1: Create Instagram media container when email is approved
@@ -58,26 +94,28 @@ export class InstagramUploadService {
       }
 
       // Store container info
+      const now = Date.now();
       const containerInfo: ContainerInfo = {
         containerId,
         videoUrl,
         caption,
-        createdAt: new Date(),
-        status: 'processing'
+        createdAt: new Date(now).toISOString(),
+        status: 'processing',
+        publishAt: new Date(now + this.pollInitialInterval).toISOString()
       };
       
       this.containers.set(containerId, containerInfo);
       
       this.logger.log(`✅ Container created successfully: ${containerId}`);
-      this.logger.log('⏳ Container will be published automatically in 1 minute...');
+      this.logger.log('⏳ Container will be published automatically once Instagram finishes processing...');
       
-      // Schedule publishing after 1 minute
+      // Schedule status polling and publishing
       this.scheduleContainerPublishing(containerId);
       
       return {
         success: true,
         containerId,
-        message: 'Instagram container created successfully. Will be published in 1 minute.'
+        message: 'Instagram container created successfully. Will be published once Instagram finishes processing.'
       };
 
     } catch (error) {
@@ -102,18 +140,84 @@ export class InstagramUploadService {
   }
 
   /**
-   * Step 2: Schedule the publishing of container after 1 minute
+   * Step 2: Schedule the first processing status check (and then publishing) of the container
    */
-  private scheduleContainerPublishing(containerId: string): void {
+  private scheduleContainerPublishing(containerId: string, delay = this.pollInitialInterval): void {
     setTimeout(async () => {
       await this.publishContainer(containerId);
-    }, 60000); // 1 minute = 60,000 milliseconds
+    }, delay);
+  }
+
+  /**
+   * Poll the container's status_code with backoff until Instagram has finished transcoding it.
+   * A container that is already PUBLISHED (e.g. the publish call went through just before a
+   * restart) is marked as published and needs no publish call. Throws when the container errors, expires or does not
+   * finish before the publish timeout.
+   */
+  private async waitForContainerReady(containerInfo: ContainerInfo): Promise<'ready' | 'published'> {
+    const accessToken = process.env.INSTAGRAM_ACCESS_TOKEN;
+    if (!accessToken) {
+      throw new Error('Instagram credentials not available in environment');
+    }
+
+    const { containerId } = containerInfo;
+    const deadline = new Date(containerInfo.createdAt).getTime() + this.publishTimeout;
+    let interval = this.pollInitialInterval;
+
+    while (true) {
+      const response = await axios.get(`https://graph.facebook.com/v20.0/${containerId}`, {
+        params: {
+          fields: 'status_code,status',
+          access_token: accessToken,
+        },
+        timeout: 30000,
+      });
+
+      const statusCode: ContainerStatusCode = response.data?.status_code;
+      containerInfo.statusCode = statusCode;
+      containerInfo.lastCheckedAt = new Date().toISOString();
+      this.logger.log(`📊 Container ${containerId} status: ${statusCode}`);
+
+      if (statusCode === 'FINISHED') {
+        containerInfo.status = 'ready';
+        this.containers.set(containerId, containerInfo);
+        return 'ready';
+      }
+
+      if (statusCode === 'PUBLISHED') {
+        containerInfo.status = 'published';
+        containerInfo.publishedAt = containerInfo.publishedAt || containerInfo.lastCheckedAt;
+        containerInfo.error = undefined;
+        this.containers.set(containerId, containerInfo);
+        return 'published';
+      }
+
+      if (statusCode === 'ERROR' || statusCode === 'EXPIRED') {
+        // `status` carries Instagram's human readable detail, e.g. the transcoding error
+        throw new Error(`Container processing ${statusCode}: ${response.data?.status || 'no details provided'}`);
+      }
+
+      this.containers.set(containerId, containerInfo);
+
+      if (Date.now() + interval > deadline) {
+        throw new Error(`Container was still ${statusCode || 'processing'} after ${Math.round(this.publishTimeout / 1000)}s`);
+      }
+
+      this.logger.log(`⏳ Container ${containerId} not ready, checking again in ${Math.round(interval / 1000)}s...`);
+      await new Promise(resolve => setTimeout(resolve, interval));
+      interval = Math.min(Math.round(interval * 1.5), this.pollMaxInterval);
+    }
   }
 
   /**
    * Step 3: Publish the container to Instagram
    */
   private async publishContainer(containerId: string): Promise<void> {
+    if (this.publishing.has(containerId)) {
+      return;
+    }
+    this.publishing.add(containerId);
+
     try {
       const containerInfo = this.containers.get(containerId);
       if (!containerInfo) {
@@ -121,6 +225,18 @@ export class InstagramUploadService {
         return;
       }
 
+      if (containerInfo.status === 'published') {
+        this.logger.log(`ℹ️ Container ${containerId} is already published`);
+        return;
+      }
+
+      // Check again even when the container was stored as ready: the publish call may have gone
+      // through just before a restart, before the published status could be saved
+      if (await this.waitForContainerReady(containerInfo) === 'published') {
+        this.logger.log(`ℹ️ Container ${containerId} was already published`);
+        return;
+      }
+
       this.logger.log(`🚀 Publishing Instagram container: ${containerId}`);
       
       const accessToken = process.env.INSTAGRAM_ACCESS_TOKEN;
@@ -151,6 +267,9 @@ export class InstagramUploadService {
 
       // Update container status
       containerInfo.status = 'published';
+      containerInfo.publishedAt = new Date().toISOString();
+      containerInfo.mediaId = mediaId;
+      containerInfo.error = undefined;
       this.containers.set(containerId, containerInfo);
       
       this.logger.log(`✅ Instagram reel published successfully!`);
@@ -161,17 +280,20 @@ export class InstagramUploadService {
     } catch (error) {
       this.logger.error(`❌ Failed to publish container ${containerId}:`, error);
       
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error?.message || error.message
+        : error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Instagram publish error: ${errorMessage}`);
+
       // Update container status to failed
       const containerInfo = this.containers.get(containerId);
       if (containerInfo) {
         containerInfo.status = 'failed';
+        containerInfo.error = errorMessage;
         this.containers.set(containerId, containerInfo);
       }
-
-      if (axios.isAxiosError(error)) {
-        const errorMessage = error.response?.data?.error?.message || error.message;
-        this.logger.error(`Instagram publish error: ${errorMessage}`);
-      }
+    } finally {
+      this.publishing.delete(containerId);
     }
   }
 
@@ -179,13 +301,15 @@ export class InstagramUploadService {
    * Get container status for monitoring
    */
   getContainerStatus(containerId: string): ContainerInfo | null {
-    return this.containers.get(containerId) || null;
+    return this.containers.get(containerId);
   }
 
   /**
-   * Get all containers
+   * Get all containers, newest first
    */
   getAllContainers(): ContainerInfo[] {
-    return Array.from(this.containers.values());
+    return this.containers
+      .getAll()
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   }
 }
\ No newline at end of file
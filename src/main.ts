@@ -1,14 +1,15 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
-import * as bodyParser from 'body-parser';
 import * as dotenv from 'dotenv';
 
 // Load environment variables before anything else
 dotenv.config();
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.use(bodyParser.json({ limit: '10mb' })); 
+  // rawBody keeps the payload around (req.rawBody) for webhook signature checks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+  app.useBodyParser('json', { limit: '10mb' });
   const PORT = process.env.PORT || 9000;
   await app.listen(PORT);
 
@@ -1,5 +1,20 @@
-import OpenAI from 'openai';
 import axios from 'axios';
+import {
+  CaptionCompletionRequest,
+  CaptionProviderName,
+  CaptionUsage,
+  completeWithFailover,
+  resolveCaptionProviderChain,
+} from './caption-providers';
+import {
+  CaptionRules,
+  CaptionValidationReport,
+  EmojiPolicy,
+  INSTAGRAM_MAX_HASHTAGS,
+  normalizeHashtags,
+  normalizeInstagramContent,
+  parseJsonLenient,
+} from './caption-validator';
 
 /**
  * Extracts JSON content from markdown code blocks
@@ -23,40 +38,123 @@ export interface CaptionOptions {
   maxCaptionLength?: number;
   targetAudience?: string;
   includeCallToAction?: boolean;
+  provider?: CaptionProviderName; // Preferred provider, defaults to the first of CAPTION_PROVIDERS
+  fallbackProviders?: CaptionProviderName[]; // Tried in order when the preferred provider fails
+  brandVoice?: BrandVoice; // Who is posting; injected into the prompt and enforced on the result
+}
+
+export interface BrandVoice {
+  name: string;
+  description?: string;
+  exampleCaptions?: string[];
+  bannedWords?: string[];
+  requiredHashtags?: string[];
+  emojiPolicy?: EmojiPolicy;
+  signature?: string;
+}
+
+const EMOJI_POLICY_INSTRUCTIONS: Record<EmojiPolicy, string> = {
+  none: 'Do not use any emoji',
+  minimal: 'Use at most one emoji',
+  moderate: 'Use a few emoji where they fit naturally',
+  heavy: 'Use emoji generously',
+};
+
+/**
+ * Prompt section describing the brand the caption is written for
+ */
+function buildBrandVoiceSection(brand?: BrandVoice): string {
+  if (!brand) {
+    return '';
+  }
+
+  const lines = [`You are writing for the brand "${brand.name}".`];
+  if (brand.description) lines.push(`About the brand: ${brand.description}`);
+  if (brand.emojiPolicy) lines.push(`Emoji: ${EMOJI_POLICY_INSTRUCTIONS[brand.emojiPolicy]}`);
+  if (brand.bannedWords?.length) lines.push(`Never use these words: ${brand.bannedWords.join(', ')}`);
+  if (brand.requiredHashtags?.length) {
+    lines.push(`These hashtags are added automatically, do not repeat them: ${brand.requiredHashtags.join(' ')}`);
+  }
+  if (brand.signature) lines.push(`A signature line ("${brand.signature}") is appended automatically, do not write one`);
+  if (brand.exampleCaptions?.length) {
+    lines.push('Match the voice of these past captions:');
+    brand.exampleCaptions.forEach(example => lines.push(`- ${example}`));
+  }
+
+  return `Brand voice:\n${lines.join('\n')}\n\n`;
 }
 
 export interface InstagramContent {
   caption: string;
   hashtags: string[];
   fullContent: string; // Caption + hashtags combined
+  provider: CaptionProviderName;
+  model: string;
+  usage?: CaptionUsage;
+  attempts?: Array<{ provider: CaptionProviderName; error: string }>; // Providers that failed first
+  validation: CaptionValidationReport; // What normalization changed to satisfy Instagram's limits
 }
 
-// Lazy initialization of OpenAI client
-let openaiClient: OpenAI | null = null;
+/**
+ * Parses a caption/hashtags JSON completion into normalized InstagramContent fields.
+ * Throws when the response cannot be repaired so the caller retries or fails over.
+ */
+function parseInstagramContent(
+  text: string,
+  rules: CaptionRules
+): Pick<InstagramContent, 'caption' | 'hashtags' | 'fullContent' | 'validation'> {
+  // Extract JSON from markdown code blocks if present
+  const parsed = parseJsonLenient(extractJsonFromMarkdown(text));
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid response format: expected caption and hashtags');
+  }
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is required. Please set OPENAI_API_KEY environment variable.');
-    }
-    
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    
-    console.log('🔑 OpenAI client initialized successfully');
+  const normalized = normalizeInstagramContent(parsed.caption, parsed.hashtags, rules);
+  if (!normalized.validation.valid) {
+    throw new Error(`Caption validation failed: ${normalized.validation.errors.join('; ')}`);
   }
-  
-  return openaiClient;
+  if (normalized.validation.issues.length > 0) {
+    console.warn(`⚠️  Caption normalized: ${normalized.validation.issues.join('; ')}`);
+  }
+
+  return normalized;
 }
 
-// Gemini API helper functions
-function getGeminiApiKey(): string {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is not set in environment variables');
-  }
-  return apiKey;
+/**
+ * Runs a caption request through the provider chain chosen by the options
+ */
+async function generateContentWithFailover(
+  request: CaptionCompletionRequest,
+  options: CaptionOptions,
+  limits: { maxHashtags: number; maxCaptionLength: number }
+): Promise<InstagramContent> {
+  const chain = resolveCaptionProviderChain(options.provider, options.fallbackProviders);
+  const rules: CaptionRules = {
+    ...limits,
+    requiredHashtags: options.brandVoice?.requiredHashtags,
+    bannedWords: options.brandVoice?.bannedWords,
+    emojiPolicy: options.brandVoice?.emojiPolicy,
+    signature: options.brandVoice?.signature,
+  };
+  const { value, completion, attempts } = await completeWithFailover(
+    request,
+    chain,
+    text => parseInstagramContent(text, rules)
+  );
+
+  const result: InstagramContent = {
+    ...value,
+    provider: completion.provider,
+    model: completion.model,
+    usage: completion.usage,
+    attempts: attempts.length > 0 ? attempts : undefined
+  };
+
+  console.log(`✅ Instagram content generated successfully with ${completion.provider} (${completion.model})!`);
+  console.log(`📊 Caption length: ${result.caption.length} characters`);
+  console.log(`🏷️  Generated ${result.hashtags.length} hashtags`);
+
+  return result;
 }
 
 /**
@@ -137,7 +235,7 @@ async function imageUrlToBase64(imageUrl: string): Promise<{ inlineData: { data:
 
 
 /**
- * Generates Instagram caption and hashtags directly from an image URL using Gemini Vision
+ * Generates Instagram caption and hashtags directly from an image URL using a vision-capable caption provider
  * @param imageUrl - URL of the image to analyze
  * @param options - Configuration options for caption generation
  * @returns Promise<InstagramContent> - Object containing caption, hashtags, and combined content
@@ -154,16 +252,14 @@ export async function generateInstagramContentFromImage(
     includeCallToAction = true
   } = options;
 
-  console.log('🎬 Generating Instagram content from image using Gemini Vision...');
+  console.log('🎬 Generating Instagram content from image...');
   console.log(`📸 Image URL: ${imageUrl}`);
   
   try {
-    const API_KEY = getGeminiApiKey();
-    
     // Download and convert image to base64
     const imagePart = await imageUrlToBase64(imageUrl);
     
-    const captionPrompt = `Analyze this image and create engaging Instagram content.
+    const captionPrompt = `${buildBrandVoiceSection(options.brandVoice)}Analyze this image and create engaging Instagram content.
 
 Requirements:
 - Tone: ${tone}
@@ -189,81 +285,19 @@ Focus on:
 - Popular Instagram hashtags for this type of content
 - Engaging and authentic language`;
 
-    const requestBody = {
-      contents: [
-        {
-          parts: [
-            { text: captionPrompt },
-            imagePart,
-          ],
-        },
-      ],
-    };
-    
-    console.log('🌐 Calling Gemini Vision API...');
-    
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      }
+    return await generateContentWithFailover(
+      { prompt: captionPrompt, image: imagePart.inlineData },
+      options,
+      { maxHashtags, maxCaptionLength }
     );
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('❌ Gemini API Error:', errorData);
-      throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-      const generatedContent = data.candidates[0].content.parts[0].text;
-      console.log('📝 Generated Content Preview:', generatedContent.substring(0, 200) + '...');
-      
-      // Extract JSON from markdown code blocks if present
-      const cleanedContent = extractJsonFromMarkdown(generatedContent);
-      console.log('🧹 Cleaned Content:', cleanedContent.substring(0, 200) + '...');
-      
-      // Parse the JSON response from Gemini
-      const parsed = JSON.parse(cleanedContent);
-      
-      // Validate and format the response
-      if (!parsed.caption || !Array.isArray(parsed.hashtags)) {
-        throw new Error('Invalid response format from Gemini');
-      }
-
-      // Ensure hashtags have # symbol and are properly formatted
-      const formattedHashtags = parsed.hashtags
-        .map((tag: string) => tag.startsWith('#') ? tag : `#${tag}`)
-        .slice(0, maxHashtags);
-
-      const result: InstagramContent = {
-        caption: parsed.caption.trim(),
-        hashtags: formattedHashtags,
-        fullContent: `${parsed.caption.trim()}\n\n${formattedHashtags.join(' ')}`
-      };
-      
-      console.log('✅ Instagram content generated successfully with Gemini Vision!');
-      console.log(`📊 Caption length: ${result.caption.length} characters`);
-      console.log(`🏷️  Generated ${result.hashtags.length} hashtags`);
-      
-      return result;
-    } else {
-      throw new Error('No content generated from Gemini API');
-    }
   } catch (error) {
-    console.error('❌ Error generating Instagram content with Gemini:', error);
+    console.error('❌ Error generating Instagram content from image:', error);
     throw new Error(`Failed to generate Instagram content: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Generates Instagram caption and hashtags from a prompt (using OpenAI)
+ * Generates Instagram caption and hashtags from a text prompt
  * @param prompt - Description of the content for which to generate caption
  * @param options - Configuration options for caption generation
  * @returns Promise<InstagramContent> - Object containing caption, hashtags, and combined content
@@ -284,13 +318,11 @@ export async function generateInstagramContent(
   console.log(`📝 Prompt: ${prompt.substring(0, 100)}${prompt.length > 100 ? '...' : ''}`);
   
   try {
-    const openai = getOpenAIClient();
-    
     const systemPrompt = `You are an expert Instagram content creator and social media strategist. 
 You specialize in creating viral, engaging content for Instagram Reels that drives high engagement rates.
 Your content consistently performs well with the Instagram algorithm.`;
     
-    const userPrompt = `Create Instagram Reel content for: "${prompt}"
+    const userPrompt = `${buildBrandVoiceSection(options.brandVoice)}Create Instagram Reel content for: "${prompt}"
 
 Requirements:
 - Tone: ${tone}
@@ -312,45 +344,11 @@ Focus on:
 - Audience engagement
 - Instagram algorithm optimization`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-      response_format: { type: "json_object" }
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content generated from OpenAI');
-    }
-
-    const parsed = JSON.parse(content);
-    
-    // Validate and format the response
-    if (!parsed.caption || !Array.isArray(parsed.hashtags)) {
-      throw new Error('Invalid response format from OpenAI');
-    }
-
-    // Ensure hashtags have # symbol and are properly formatted
-    const formattedHashtags = parsed.hashtags
-      .map((tag: string) => tag.startsWith('#') ? tag : `#${tag}`)
-      .slice(0, maxHashtags);
-
-    const result: InstagramContent = {
-      caption: parsed.caption.trim(),
-      hashtags: formattedHashtags,
-      fullContent: `${parsed.caption.trim()}\n\n${formattedHashtags.join(' ')}`
-    };
-    
-    console.log('✅ Instagram content generated successfully!');
-    console.log(`📊 Caption length: ${result.caption.length} characters`);
-    console.log(`🏷️  Generated ${result.hashtags.length} hashtags`);
-    
-    return result;
+    return await generateContentWithFailover(
+      { systemPrompt, prompt: userPrompt, temperature: 0.7, maxTokens: 500 },
+      options,
+      { maxHashtags, maxCaptionLength }
+    );
   } catch (error) {
     console.error('❌ Error generating Instagram content:', error);
     throw new Error(`Failed to generate Instagram content: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -377,18 +375,11 @@ export async function generateHashtags(prompt: string, maxHashtags: number = 10)
   console.log('🏷️  Generating hashtags for Instagram...');
   
   try {
-    const openai = getOpenAIClient();
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a hashtag expert. Generate relevant, trending Instagram hashtags that will maximize reach and engagement."
-        },
-        {
-          role: "user",
-          content: `Generate ${maxHashtags} trending Instagram hashtags for this content: "${prompt}"
+    const chain = resolveCaptionProviderChain();
+    const { value: hashtags, completion } = await completeWithFailover(
+      {
+        systemPrompt: "You are a hashtag expert. Generate relevant, trending Instagram hashtags that will maximize reach and engagement.",
+        prompt: `Generate ${maxHashtags} trending Instagram hashtags for this content: "${prompt}"
 
 Return only a JSON array of hashtags WITHOUT the # symbol:
 ["hashtag1", "hashtag2", "hashtag3", ...]
@@ -397,25 +388,19 @@ Focus on:
 - Popular and trending hashtags
 - Niche-specific hashtags
 - Mix of broad and specific tags
-- Current Instagram trends`
-        }
-      ],
-      temperature: 0.5,
-      max_tokens: 200,
-      response_format: { type: "json_object" }
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No hashtags generated from OpenAI');
-    }
-
-    const parsed = JSON.parse(content);
-    const hashtags = (parsed.hashtags || parsed).map((tag: string) => 
-      tag.startsWith('#') ? tag : `#${tag}`
+- Current Instagram trends`,
+        temperature: 0.5,
+        maxTokens: 200
+      },
+      chain,
+      text => {
+        const parsed = parseJsonLenient(extractJsonFromMarkdown(text));
+        return normalizeHashtags(parsed.hashtags || parsed).hashtags
+          .slice(0, Math.min(maxHashtags, INSTAGRAM_MAX_HASHTAGS));
+      }
     );
 
-    console.log(`✅ Generated ${hashtags.length} hashtags successfully!`);
+    console.log(`✅ Generated ${hashtags.length} hashtags successfully with ${completion.provider}!`);
     return hashtags;
   } catch (error) {
     console.error('❌ Error generating hashtags:', error);
@@ -0,0 +1,253 @@
+import OpenAI from 'openai';
+import { getGeminiModel } from './gemini-helper';
+
+export type CaptionProviderName = 'gemini' | 'openai';
+
+export const CAPTION_PROVIDER_NAMES: CaptionProviderName[] = ['gemini', 'openai'];
+
+export interface CaptionUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface CaptionCompletionRequest {
+  systemPrompt?: string;
+  prompt: string;
+  image?: { data: string; mimeType: string }; // base64 image for vision requests
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CaptionCompletion {
+  text: string;
+  provider: CaptionProviderName;
+  model: string;
+  usage?: CaptionUsage;
+}
+
+/**
+ * A text model that can turn a prompt (optionally with an image) into a JSON completion
+ */
+export interface CaptionProvider {
+  readonly name: CaptionProviderName;
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: CaptionCompletionRequest): Promise<CaptionCompletion>;
+}
+
+class GeminiCaptionProvider implements CaptionProvider {
+  readonly name: CaptionProviderName = 'gemini';
+
+  get model(): string {
+    return getGeminiModel();
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async complete(request: CaptionCompletionRequest): Promise<CaptionCompletion> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not set in environment variables');
+    }
+
+    const parts: any[] = [{ text: request.prompt }];
+    if (request.image) {
+      parts.push({ inlineData: request.image });
+    }
+
+    const requestBody: any = {
+      contents: [{ parts }],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    };
+    if (request.systemPrompt) {
+      requestBody.systemInstruction = { parts: [{ text: request.systemPrompt }] };
+    }
+
+    console.log(`🌐 Calling Gemini API (${this.model})...`);
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('❌ Gemini API Error:', errorData);
+      throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error('No content generated from Gemini API');
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: data.usageMetadata && {
+        promptTokens: data.usageMetadata.promptTokenCount,
+        completionTokens: data.usageMetadata.candidatesTokenCount,
+        totalTokens: data.usageMetadata.totalTokenCount,
+      },
+    };
+  }
+}
+
+class OpenAICaptionProvider implements CaptionProvider {
+  readonly name: CaptionProviderName = 'openai';
+  private client: OpenAI | null = null;
+
+  get model(): string {
+    return process.env.OPENAI_CAPTION_MODEL || 'gpt-4o';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  // Lazy initialization of OpenAI client
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI API key is required. Please set OPENAI_API_KEY environment variable.');
+      }
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      console.log('🔑 OpenAI client initialized successfully');
+    }
+    return this.client;
+  }
+
+  async complete(request: CaptionCompletionRequest): Promise<CaptionCompletion> {
+    const openai = this.getClient();
+
+    const userContent: OpenAI.Chat.ChatCompletionContentPart[] = [{ type: 'text', text: request.prompt }];
+    if (request.image) {
+      userContent.push({
+        type: 'image_url',
+        image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` },
+      });
+    }
+
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({ role: 'user', content: userContent });
+
+    console.log(`🌐 Calling OpenAI API (${this.model})...`);
+
+    const response = await openai.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 500,
+      response_format: { type: 'json_object' },
+    });
+
+    const text = response.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error('No content generated from OpenAI');
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      },
+    };
+  }
+}
+
+const providers: Record<CaptionProviderName, CaptionProvider> = {
+  gemini: new GeminiCaptionProvider(),
+  openai: new OpenAICaptionProvider(),
+};
+
+// Extra attempts on the same provider when its response cannot be parsed
+const PARSE_RETRIES = Math.max(0, parseInt(process.env.CAPTION_PARSE_RETRIES || '1', 10) || 0);
+
+/**
+ * Ordered provider chain: the requested provider (or the first of CAPTION_PROVIDERS) first,
+ * then the explicit fallbacks or the rest of CAPTION_PROVIDERS
+ */
+export function resolveCaptionProviderChain(
+  provider?: CaptionProviderName,
+  fallbackProviders?: CaptionProviderName[]
+): CaptionProviderName[] {
+  const configured = (process.env.CAPTION_PROVIDERS || 'gemini,openai')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean) as CaptionProviderName[];
+
+  const chain = Array.from(new Set([provider || configured[0], ...(fallbackProviders || configured)]));
+  const invalid = chain.filter(name => !CAPTION_PROVIDER_NAMES.includes(name));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown caption provider(s): ${invalid.join(', ')}. Expected: ${CAPTION_PROVIDER_NAMES.join(', ')}`);
+  }
+  return chain;
+}
+
+/**
+ * Runs the request against each provider in the chain until one returns a completion
+ * that `parse` accepts. Unparseable output is retried CAPTION_PARSE_RETRIES times before failing over.
+ */
+export async function completeWithFailover<T>(
+  request: CaptionCompletionRequest,
+  chain: CaptionProviderName[],
+  parse: (text: string) => T
+): Promise<{ value: T; completion: CaptionCompletion; attempts: Array<{ provider: CaptionProviderName; error: string }> }> {
+  const attempts: Array<{ provider: CaptionProviderName; error: string }> = [];
+
+  for (const name of chain) {
+    const provider = providers[name];
+    if (!provider.isConfigured()) {
+      attempts.push({ provider: name, error: 'Provider not configured' });
+      continue;
+    }
+
+    // A response that fails to parse is retried on the same provider before failing over
+    for (let parseAttempt = 0; parseAttempt <= PARSE_RETRIES; parseAttempt++) {
+      let completion: CaptionCompletion;
+      try {
+        completion = await provider.complete(request);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Caption provider ${name} (${provider.model}) failed: ${message}`);
+        attempts.push({ provider: name, error: message });
+        break;
+      }
+
+      try {
+        const value = parse(completion.text);
+        return { value, completion, attempts };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Caption provider ${name} (${provider.model}) returned an unusable response: ${message}`);
+        attempts.push({ provider: name, error: message });
+        if (parseAttempt < PARSE_RETRIES) {
+          console.log(`🔄 Retrying ${name} (${parseAttempt + 1}/${PARSE_RETRIES})...`);
+        }
+      }
+    }
+  }
+
+  throw new Error(`All caption providers failed (${attempts.map(a => `${a.provider}: ${a.error}`).join('; ')})`);
+}
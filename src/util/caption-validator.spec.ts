@@ -0,0 +1,100 @@
+import {
+  INSTAGRAM_MAX_CAPTION_LENGTH,
+  normalizeHashtag,
+  normalizeHashtags,
+  normalizeInstagramContent,
+  parseJsonLenient,
+} from './caption-validator';
+
+describe('caption validator', () => {
+  describe('parseJsonLenient', () => {
+    it('repairs prose, comments, smart quotes and trailing commas around a model\'s JSON', () => {
+      const response = [
+        'Sure! Here is the caption:',
+        '```json',
+        '{',
+        '  “caption”: “Golden hour”, // keep it short',
+        '  "hashtags": ["#sunset", "#beach",],',
+        '}',
+        '```',
+      ].join('\n');
+
+      expect(parseJsonLenient(response)).toEqual({ caption: 'Golden hour', hashtags: ['#sunset', '#beach'] });
+    });
+
+    it('reports the original parse error when the text cannot be repaired', () => {
+      expect(() => parseJsonLenient('no json here')).toThrow(/^Malformed JSON in model response: /);
+    });
+  });
+
+  describe('hashtags', () => {
+    it('normalizes case, punctuation and the leading #', () => {
+      expect(normalizeHashtag('#Sunset Vibes!')).toBe('#sunsetvibes');
+      expect(normalizeHashtag('##SUNSETVIBES')).toBe('#sunsetvibes');
+      expect(normalizeHashtag('café')).toBe('#café');
+    });
+
+    it('drops tags Instagram would ignore', () => {
+      expect(normalizeHashtag('#2024')).toBeNull();
+      expect(normalizeHashtag('#!!!')).toBeNull();
+    });
+
+    it('splits a string, drops invalid tags and removes duplicates', () => {
+      expect(normalizeHashtags('#Travel, #travel #2024 beach')).toEqual({
+        hashtags: ['#travel', '#beach'],
+        issues: ['Hashtags were not returned as a list', 'Dropped 1 invalid hashtag(s)', 'Removed 1 duplicate hashtag(s)'],
+      });
+    });
+  });
+
+  describe('normalizeInstagramContent', () => {
+    const tags = (count: number) => Array.from({ length: count }, (_, index) => `#tag${index}`);
+
+    it('passes valid content through unchanged', () => {
+      const result = normalizeInstagramContent('  Golden hour at the beach  ', ['#sunset', '#beach']);
+
+      expect(result).toEqual({
+        caption: 'Golden hour at the beach',
+        hashtags: ['#sunset', '#beach'],
+        fullContent: 'Golden hour at the beach\n\n#sunset #beach',
+        validation: { valid: true, issues: [], errors: [] },
+      });
+    });
+
+    it('reports an empty caption as an error rather than repairing it', () => {
+      expect(normalizeInstagramContent(undefined, ['#sunset']).validation).toMatchObject({ valid: false, errors: ['Caption is empty'] });
+    });
+
+    it('truncates long captions at a word boundary', () => {
+      const result = normalizeInstagramContent('word '.repeat(600), ['#sunset']);
+
+      expect(result.caption.length).toBeLessThanOrEqual(INSTAGRAM_MAX_CAPTION_LENGTH);
+      expect(result.caption).toMatch(/word…$/);
+      expect(result.validation.valid).toBe(true);
+      expect(result.validation.issues[0]).toMatch(/^Caption truncated from \d+ to 2200 characters$/);
+    });
+
+    it('keeps at most 30 hashtags, counting the ones written in the caption', () => {
+      expect(normalizeInstagramContent('Sunset', tags(40)).hashtags).toHaveLength(30);
+      expect(normalizeInstagramContent('Sunset #golden #hour', tags(40)).hashtags).toHaveLength(28);
+    });
+
+    it('respects a lower hashtag limit, including zero', () => {
+      expect(normalizeInstagramContent('Sunset', tags(10), { maxHashtags: 3 }).hashtags).toEqual(['#tag0', '#tag1', '#tag2']);
+
+      const none = normalizeInstagramContent('Sunset', tags(10), { maxHashtags: 0 });
+      expect(none.hashtags).toEqual([]);
+      expect(none.fullContent).toBe('Sunset');
+    });
+
+    it('drops hashtags until caption and hashtags fit together', () => {
+      const caption = 'a'.repeat(INSTAGRAM_MAX_CAPTION_LENGTH - 20);
+
+      const result = normalizeInstagramContent(caption, ['#one', '#two', '#three', '#four', '#five']);
+
+      expect(result.fullContent.length).toBeLessThanOrEqual(INSTAGRAM_MAX_CAPTION_LENGTH);
+      expect(result.hashtags).toEqual(['#one', '#two', '#three']);
+      expect(result.validation.issues).toContain('Dropped 2 hashtag(s) to fit the 2200 character limit');
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Instagram-aware validation and normalization of generated captions and hashtags
+ */
+
+// Platform limits for a single post
+export const INSTAGRAM_MAX_CAPTION_LENGTH = 2200;
+export const INSTAGRAM_MAX_HASHTAGS = 30;
+
+export interface CaptionValidationReport {
+  valid: boolean;
+  issues: string[]; // Problems that were repaired automatically
+  errors: string[]; // Problems that could not be repaired
+}
+
+export interface NormalizedCaption {
+  caption: string;
+  hashtags: string[];
+  fullContent: string;
+  validation: CaptionValidationReport;
+}
+
+/**
+ * Repairs the usual ways a model breaks JSON: prose around the object, // comments
+ * copied from the prompt template, smart quotes and trailing commas
+ */
+export function repairJson(text: string): string {
+  let repaired = text.trim();
+
+  const firstBrace = repaired.search(/[{[]/);
+  const lastBrace = Math.max(repaired.lastIndexOf('}'), repaired.lastIndexOf(']'));
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    repaired = repaired.slice(firstBrace, lastBrace + 1);
+  }
+
+  return repaired
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/(["\]}\d,])\s*\/\/[^\n"]*$/gm, '$1')
+    .replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * JSON.parse that falls back to a repaired version of the text before giving up
+ */
+export function parseJsonLenient(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (originalError) {
+    try {
+      return JSON.parse(repairJson(text));
+    } catch {
+      throw new Error(`Malformed JSON in model response: ${originalError.message}`);
+    }
+  }
+}
+
+/**
+ * Turns "#Sunset Vibes!", "sunsetvibes" and "#SUNSETVIBES" into the same "#sunsetvibes"
+ */
+export function normalizeHashtag(tag: string): string | null {
+  const body = String(tag)
+    .replace(/^#+/, '')
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N}_]/gu, '')
+    .toLowerCase();
+
+  // Instagram ignores tags that are only digits
+  if (!body || /^\d+$/.test(body)) {
+    return null;
+  }
+  return `#${body}`;
+}
+
+/**
+ * Normalizes, filters and de-duplicates a model's hashtag list without applying any limit
+ */
+export function normalizeHashtags(rawHashtags: unknown): { hashtags: string[]; issues: string[] } {
+  const issues: string[] = [];
+
+  // Hashtags sometimes come back as one string instead of an array
+  const tagList: unknown[] = Array.isArray(rawHashtags)
+    ? rawHashtags
+    : typeof rawHashtags === 'string' ? rawHashtags.split(/[\s,]+/) : [];
+  if (!Array.isArray(rawHashtags)) {
+    issues.push('Hashtags were not returned as a list');
+  }
+
+  const hashtags: string[] = [];
+  let dropped = 0;
+  let duplicates = 0;
+  for (const tag of tagList) {
+    const normalized = normalizeHashtag(String(tag));
+    if (!normalized) {
+      dropped++;
+    } else if (hashtags.includes(normalized)) {
+      duplicates++;
+    } else {
+      hashtags.push(normalized);
+    }
+  }
+  if (dropped > 0) issues.push(`Dropped ${dropped} invalid hashtag(s)`);
+  if (duplicates > 0) issues.push(`Removed ${duplicates} duplicate hashtag(s)`);
+
+  return { hashtags, issues };
+}
+
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export type EmojiPolicy = 'none' | 'minimal' | 'moderate' | 'heavy';
+
+export interface CaptionRules {
+  maxCaptionLength?: number;
+  maxHashtags?: number;
+  requiredHashtags?: string[]; // Always included, ahead of generated hashtags
+  bannedWords?: string[]; // A caption containing any of these is rejected
+  emojiPolicy?: EmojiPolicy; // 'none' strips emoji from the caption
+  signature?: string; // Appended to the caption on its own line
+}
+
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Enforces Instagram's caption/hashtag limits and the caller's rules,
+ * repairing what it can and reporting everything it changed
+ */
+export function normalizeInstagramContent(
+  rawCaption: unknown,
+  rawHashtags: unknown,
+  rules: CaptionRules = {}
+): NormalizedCaption {
+  const issues: string[] = [];
+  const errors: string[] = [];
+
+  let caption = typeof rawCaption === 'string' ? rawCaption.trim() : '';
+
+  if (rules.emojiPolicy === 'none' && caption.match(EMOJI_PATTERN)) {
+    caption = caption.replace(EMOJI_PATTERN, '').replace(/ {2,}/g, ' ').trim();
+    issues.push('Removed emoji (emoji policy is "none")');
+  }
+
+  if (!caption) {
+    errors.push('Caption is empty');
+  }
+
+  const bannedFound = (rules.bannedWords || []).filter(word =>
+    word.trim() && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word.trim())}($|[^\\p{L}\\p{N}])`, 'iu').test(caption)
+  );
+  if (bannedFound.length > 0) {
+    errors.push(`Caption contains banned word(s): ${bannedFound.join(', ')}`);
+  }
+
+  // Leave room for the signature so it is never the part that gets cut off
+  const signature = rules.signature?.trim();
+  const signatureLength = signature ? signature.length + 2 : 0;
+  const maxCaptionLength = Math.min(rules.maxCaptionLength || INSTAGRAM_MAX_CAPTION_LENGTH, INSTAGRAM_MAX_CAPTION_LENGTH) - signatureLength;
+  if (caption.length > maxCaptionLength) {
+    issues.push(`Caption truncated from ${caption.length} to ${maxCaptionLength} characters`);
+    caption = truncateAtWord(caption, maxCaptionLength);
+  }
+  if (signature && caption && !caption.endsWith(signature)) {
+    caption = `${caption}\n\n${signature}`;
+  }
+
+  const { hashtags: generated, issues: hashtagIssues } = normalizeHashtags(rawHashtags);
+  issues.push(...hashtagIssues);
+
+  const required = normalizeHashtags(rules.requiredHashtags || []).hashtags;
+  const hashtags = [...required, ...generated.filter(tag => !required.includes(tag))];
+
+  // Hashtags written inside the caption count towards Instagram's limit too
+  const inlineHashtags = (caption.match(/#[\p{L}\p{N}_]+/gu) || []).length;
+  const maxHashtags = Math.max(
+    0,
+    Math.min(Math.max(rules.maxHashtags ?? INSTAGRAM_MAX_HASHTAGS, required.length), INSTAGRAM_MAX_HASHTAGS - inlineHashtags)
+  );
+  if (hashtags.length > maxHashtags) {
+    issues.push(`Hashtags reduced from ${hashtags.length} to ${maxHashtags}`);
+    hashtags.length = maxHashtags;
+  }
+
+  // The caption and hashtags are posted together, so the combined text must fit as well
+  const combinedLength = () => caption.length + (hashtags.length > 0 ? 2 + hashtags.join(' ').length : 0);
+  let trimmedForLength = 0;
+  while (hashtags.length > 0 && combinedLength() > INSTAGRAM_MAX_CAPTION_LENGTH) {
+    hashtags.pop();
+    trimmedForLength++;
+  }
+  if (trimmedForLength > 0) {
+    issues.push(`Dropped ${trimmedForLength} hashtag(s) to fit the ${INSTAGRAM_MAX_CAPTION_LENGTH} character limit`);
+  }
+
+  if (hashtags.length === 0) {
+    issues.push('No valid hashtags');
+  }
+
+  return {
+    caption,
+    hashtags,
+    fullContent: hashtags.length > 0 ? `${caption}\n\n${hashtags.join(' ')}` : caption,
+    validation: {
+      valid: errors.length === 0,
+      issues,
+      errors,
+    },
+  };
+}
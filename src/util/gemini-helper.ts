@@ -11,6 +11,13 @@ function getGeminiApiKey(): string {
   return apiKey;
 }
 
+/**
+ * Gemini model configured for captions (GEMINI_CAPTION_MODEL), also used for image analysis
+ */
+export function getGeminiModel(): string {
+  return process.env.GEMINI_CAPTION_MODEL || 'gemini-2.0-flash-exp';
+}
+
 const SIMPLE_DYNAMIC_PROMPT = "Create a dynamic video from this image. Add natural movement and life to the scene: gentle camera motion, moving elements like leaves, water, clouds, or people. Keep it smooth and realistic. Focus on bringing the static image to life with subtle animations and flowing movements.";
 
 /**
@@ -219,3 +226,73 @@ export async function generatePromptFromBuffer(
 }
 
 
+
+/**
+ * Bounding box of an image's main subject, as fractions (0-1) of the image size
+ */
+export interface SubjectBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  label?: string;
+}
+
+const SUBJECT_BOX_PROMPT = 'Find the main subject of this photo (the person, group, animal or object a viewer would look at first). Respond with JSON only: {"label": "<short description>", "box_2d": [ymin, xmin, ymax, xmax]} with coordinates normalized to 0-1000.';
+
+/**
+ * Asks Gemini vision where the main subject of an image is, for subject-aware cropping
+ */
+export async function detectSubjectBox(imageBuffer: Buffer, mimeType: string = 'image/jpeg'): Promise<SubjectBox> {
+  const model = getGeminiModel();
+  console.log(`🔍 Detecting main subject with Gemini (${model})...`);
+
+  const API_KEY = getGeminiApiKey();
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${API_KEY}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [
+              { text: SUBJECT_BOX_PROMPT },
+              { inlineData: { data: imageBuffer.toString('base64'), mimeType } },
+            ],
+          },
+        ],
+        generationConfig: { responseMimeType: 'application/json', temperature: 0 },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) {
+    throw new Error('No content generated from the API');
+  }
+
+  // Gemini sometimes wraps the object in an array
+  const parsed = JSON.parse(text);
+  const result = Array.isArray(parsed) ? parsed[0] : parsed;
+  const box = result?.box_2d;
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(value => typeof value === 'number')) {
+    throw new Error(`Unexpected subject box response: ${text.slice(0, 200)}`);
+  }
+
+  const [ymin, xmin, ymax, xmax] = box.map(value => Math.min(Math.max(value / 1000, 0), 1));
+  if (xmax <= xmin || ymax <= ymin) {
+    throw new Error(`Empty subject box: ${JSON.stringify(box)}`);
+  }
+
+  console.log(`✅ Subject detected: ${result.label || 'unlabelled'} at [${box.join(', ')}]`);
+  return { left: xmin, top: ymin, width: xmax - xmin, height: ymax - ymin, label: result.label };
+}
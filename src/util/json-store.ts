@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Resolves the directory used for persisted server state (DATA_DIR, defaults to ./data)
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Minimal file-backed record store - one JSON file per record inside a collection directory.
+ * Writes go through a temp file + rename so a crash mid-write never leaves a truncated record.
+ */
+export class JsonFileStore<T> {
+  private readonly dir: string;
+
+  constructor(collection: string) {
+    this.dir = path.join(getDataDir(), collection);
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  private filePath(id: string): string {
+    // Ids come from request paths, so keep them inside the collection directory
+    const safeId = id.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    return path.join(this.dir, `${safeId}.json`);
+  }
+
+  get(id: string): T | null {
+    const file = this.filePath(id);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  }
+
+  set(id: string, value: T): void {
+    const file = this.filePath(id);
+    const tmpFile = `${file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(value, null, 2));
+    fs.renameSync(tmpFile, file);
+  }
+
+  delete(id: string): boolean {
+    const file = this.filePath(id);
+    if (!fs.existsSync(file)) {
+      return false;
+    }
+    fs.unlinkSync(file);
+    return true;
+  }
+
+  getAll(): T[] {
+    return fs
+      .readdirSync(this.dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        try {
+          return JSON.parse(fs.readFileSync(path.join(this.dir, name), 'utf8')) as T;
+        } catch {
+          return null;
+        }
+      })
+      .filter((record): record is T => record !== null);
+  }
+}
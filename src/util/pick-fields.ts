@@ -0,0 +1,13 @@
+/**
+ * The given fields of a request body that were actually set. Updates copy only these, so a body
+ * can't overwrite bookkeeping such as timestamps or run history.
+ */
+export function pickDefinedFields<T extends object, K extends keyof T>(input: T, fields: readonly K[]): Partial<Pick<T, K>> {
+  const picked: Partial<Pick<T, K>> = {};
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      picked[field] = input[field];
+    }
+  }
+  return picked;
+}
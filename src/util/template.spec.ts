@@ -0,0 +1,52 @@
+import { renderTemplate } from './template';
+
+describe('renderTemplate', () => {
+  it('escapes variables unless they use triple braces', () => {
+    const data = { name: '<b>"Sam" & co</b>' };
+    expect(renderTemplate('Hi {{name}}', data)).toBe('Hi &lt;b&gt;&quot;Sam&quot; &amp; co&lt;/b&gt;');
+    expect(renderTemplate('Hi {{{name}}}', data)).toBe('Hi <b>"Sam" & co</b>');
+  });
+
+  it('renders missing values as empty text', () => {
+    expect(renderTemplate('[{{missing}}][{{{missing}}}][{{user.name}}]', {})).toBe('[][][]');
+  });
+
+  it('resolves dotted paths', () => {
+    expect(renderTemplate('{{run.status.label}}', { run: { status: { label: 'Done' } } })).toBe('Done');
+  });
+
+  it('repeats sections for arrays and supports the current item', () => {
+    expect(renderTemplate('{{#tags}}{{.}} {{/tags}}', { tags: ['#one', '#two'] })).toBe('#one #two ');
+    expect(renderTemplate('{{#items}}{{name}}={{value}};{{/items}}', { items: [{ name: 'a', value: 1 }, { name: 'b', value: 2 }] }))
+      .toBe('a=1;b=2;');
+  });
+
+  it('renders sections once for truthy values and not at all for empty ones', () => {
+    const source = '{{#user}}Hi {{name}}{{/user}}{{^user}}Nobody{{/user}}';
+    expect(renderTemplate(source, { user: { name: 'Alex' } })).toBe('Hi Alex');
+    expect(renderTemplate(source, { user: null })).toBe('Nobody');
+    expect(renderTemplate('{{#list}}x{{/list}}{{^list}}empty{{/list}}', { list: [] })).toBe('empty');
+  });
+
+  it('looks up keys in outer contexts when the item does not have them', () => {
+    expect(renderTemplate('{{#items}}{{name}}@{{site}} {{/items}}', { site: 'home', items: [{ name: 'a' }, { name: 'b', site: 'away' }] }))
+      .toBe('a@home b@away ');
+  });
+
+  it('includes partials with the current context', () => {
+    const partials: Record<string, string> = { card: '<li>{{title}}</li>' };
+    expect(renderTemplate('<ul>{{#cards}}{{> card}}{{/cards}}</ul>', { cards: [{ title: 'One' }] }, name => partials[name]))
+      .toBe('<ul><li>One</li></ul>');
+  });
+
+  it('refuses partials without a loader and recursive partials', () => {
+    expect(() => renderTemplate('{{> card}}', {})).toThrow('Cannot include partial "card"');
+    expect(() => renderTemplate('{{> loop}}', {}, () => '{{> loop}}')).toThrow('Cannot include partial "loop"');
+  });
+
+  it('reports unbalanced sections', () => {
+    expect(() => renderTemplate('{{#a}}text', {})).toThrow('Unclosed section {{#a}}');
+    expect(() => renderTemplate('{{#a}}{{/b}}', {})).toThrow('Unexpected {{/b}} - "a" is still open');
+    expect(() => renderTemplate('{{/a}}', {})).toThrow('Unexpected {{/a}}');
+  });
+});
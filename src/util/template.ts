@@ -0,0 +1,110 @@
+/**
+ * Minimal mustache-style templates for the email and page templates:
+ * {{name}} escaped, {{{name}}} raw, {{#name}}...{{/name}} sections (repeated for arrays,
+ * rendered once for other truthy values), {{^name}}...{{/name}} inverted sections and
+ * {{> partial}} includes. Dotted paths and {{.}} (the current item) are supported.
+ */
+import { escapeHtml } from './html';
+
+export type PartialLoader = (name: string) => string;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+const TAG_PATTERN = /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*([#^/>]?)\s*([\w.-]+)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+export function renderTemplate(source: string, data: object, loadPartial?: PartialLoader): string {
+  return renderNodes(parseTemplate(source), [data], loadPartial, 0);
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: Array<{ path: string; children: TemplateNode[] }> = [{ path: '', children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const children = open[open.length - 1].children;
+    if (match.index > lastIndex) {
+      children.push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [, rawPath, sigil, path] = match;
+    if (rawPath) {
+      children.push({ type: 'variable', path: rawPath, raw: true });
+    } else if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', path, inverted: sigil === '^', children: [] };
+      children.push(section);
+      open.push({ path, children: section.children });
+    } else if (sigil === '/') {
+      const closing = open.pop();
+      if (open.length === 0 || closing.path !== path) {
+        throw new Error(`Unexpected {{/${path}}}${closing.path ? ` - "${closing.path}" is still open` : ''}`);
+      }
+    } else if (sigil === '>') {
+      children.push({ type: 'partial', name: path });
+    } else {
+      children.push({ type: 'variable', path, raw: false });
+    }
+  }
+
+  if (open.length > 1) {
+    throw new Error(`Unclosed section {{#${open[open.length - 1].path}}}`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], stack: unknown[], loadPartial: PartialLoader | undefined, depth: number): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = lookup(stack, node.path);
+        return node.raw ? String(value ?? '') : escapeHtml(value);
+      }
+      case 'section': {
+        const value = lookup(stack, node.path);
+        const empty = !value || (Array.isArray(value) && value.length === 0);
+        if (node.inverted) {
+          return empty ? renderNodes(node.children, stack, loadPartial, depth) : '';
+        }
+        if (empty) {
+          return '';
+        }
+        const items = Array.isArray(value) ? value : [value];
+        return items.map(item => renderNodes(node.children, [...stack, item], loadPartial, depth)).join('');
+      }
+      case 'partial': {
+        if (!loadPartial || depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Cannot include partial "${node.name}"`);
+        }
+        return renderNodes(parseTemplate(loadPartial(node.name)), stack, loadPartial, depth + 1);
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Resolve a dotted path against the innermost context that has its first segment
+ */
+function lookup(stack: unknown[], path: string): unknown {
+  if (path === '.') {
+    return stack[stack.length - 1];
+  }
+
+  const [head, ...rest] = path.split('.');
+  const scope = [...stack].reverse().find(context => context !== null && typeof context === 'object' && head in context);
+  let value: unknown = scope ? (scope as Record<string, unknown>)[head] : undefined;
+  for (const key of rest) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
@@ -0,0 +1,77 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createFalClient, FalClient } from '@fal-ai/client';
+import type { AdvancedGenerateVideoRequest, GenerateVideoResponse } from '../video.service';
+import { VideoProvider, VideoProviderName } from './video-provider';
+
+/**
+ * fal.ai queue API - the image-to-video model is configurable through FAL_VIDEO_MODEL
+ */
+@Injectable()
+export class FalVideoProvider implements VideoProvider {
+  readonly name: VideoProviderName = 'fal';
+  readonly model: string;
+  private readonly falKey: string;
+  private client: FalClient | null = null;
+
+  constructor(private configService: ConfigService) {
+    this.falKey = this.configService.get<string>('FAL_KEY');
+    this.model = this.configService.get<string>('FAL_VIDEO_MODEL') || 'fal-ai/kling-video/v2.1/pro/image-to-video';
+  }
+
+  isConfigured(): boolean {
+    return !!this.falKey;
+  }
+
+  private getClient(): FalClient {
+    if (!this.client) {
+      if (!this.falKey) {
+        throw new InternalServerErrorException('FAL_KEY environment variable is required');
+      }
+      this.client = createFalClient({ credentials: this.falKey });
+    }
+    return this.client;
+  }
+
+  async generateVideo(
+    { imageBase64, prompt, duration = "5", negativePrompt, cfgScale }: AdvancedGenerateVideoRequest,
+    signal?: AbortSignal
+  ): Promise<GenerateVideoResponse> {
+    const client = this.getClient();
+
+    // fal accepts data URIs for image inputs, so make sure the prefix is present
+    const imageUrl = imageBase64.startsWith('data:')
+      ? imageBase64
+      : `data:image/jpeg;base64,${imageBase64}`;
+
+    console.log(`📤 Submitting video generation to fal.ai (${this.model})...`);
+
+    const result = await client.subscribe(this.model, {
+      input: {
+        prompt,
+        image_url: imageUrl,
+        duration,
+        negative_prompt: negativePrompt,
+        cfg_scale: cfgScale,
+      },
+      logs: false,
+      abortSignal: signal,
+      onQueueUpdate: update => console.log(`📊 fal.ai status: ${update.status}`),
+    });
+
+    const videoUrl = (result.data as any)?.video?.url;
+    if (!videoUrl) {
+      throw new InternalServerErrorException('fal.ai response did not include a video URL');
+    }
+
+    console.log(`✅ fal.ai video generation completed! URL: ${videoUrl}`);
+
+    return {
+      videoUrl,
+      taskId: result.requestId,
+      provider: this.name,
+      model: this.model,
+      result: result.data
+    };
+  }
+}
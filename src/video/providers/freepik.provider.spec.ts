@@ -0,0 +1,60 @@
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { FreepikVideoProvider } from './freepik.provider';
+
+describe('FreepikVideoProvider webhooks', () => {
+  const secretKey = Buffer.from('freepik-webhook-secret');
+  const rawBody = JSON.stringify({ data: { task_id: 'task-1', status: 'COMPLETED' } });
+
+  const createProvider = (config: Record<string, string>) =>
+    new FreepikVideoProvider(new ConfigService({ FREEPIK_API_KEY: 'key', ...config }));
+
+  const signedHeaders = (body: string, timestamp = String(Math.floor(Date.now() / 1000)), key = secretKey) => ({
+    'webhook-id': 'msg_1',
+    'webhook-timestamp': timestamp,
+    'webhook-signature': `v1,${createHmac('sha256', key).update(`msg_1.${timestamp}.${body}`).digest('base64')}`,
+  });
+
+  describe('with a webhook token', () => {
+    const provider = createProvider({ FREEPIK_WEBHOOK_TOKEN: 'callback-token' });
+
+    it('accepts deliveries carrying the token', () => {
+      expect(provider.verifyWebhook({}, rawBody, 'callback-token')).toBe(true);
+    });
+
+    it('rejects a wrong or missing token', () => {
+      expect(provider.verifyWebhook({}, rawBody, 'other-token')).toBe(false);
+      expect(provider.verifyWebhook({}, rawBody)).toBe(false);
+    });
+  });
+
+  describe('with a signing secret', () => {
+    const provider = createProvider({ FREEPIK_WEBHOOK_SECRET: `whsec_${secretKey.toString('base64')}` });
+
+    it('accepts a delivery signed with the secret', () => {
+      expect(provider.verifyWebhook(signedHeaders(rawBody), rawBody)).toBe(true);
+    });
+
+    it('accepts any matching signature among several', () => {
+      const headers = signedHeaders(rawBody);
+      headers['webhook-signature'] = `v1,b3RoZXI= ${headers['webhook-signature']}`;
+      expect(provider.verifyWebhook(headers, rawBody)).toBe(true);
+    });
+
+    it('rejects a changed body or a signature made with another key', () => {
+      expect(provider.verifyWebhook(signedHeaders(rawBody), rawBody.replace('COMPLETED', 'FAILED'))).toBe(false);
+      expect(provider.verifyWebhook(signedHeaders(rawBody, undefined, Buffer.from('other-secret')), rawBody)).toBe(false);
+    });
+
+    it('rejects old deliveries and missing headers', () => {
+      const stale = String(Math.floor(Date.now() / 1000) - 6 * 60);
+      expect(provider.verifyWebhook(signedHeaders(rawBody, stale), rawBody)).toBe(false);
+      expect(provider.verifyWebhook({ 'webhook-id': 'msg_1' }, rawBody)).toBe(false);
+    });
+  });
+
+  it('rejects every delivery when neither a token nor a secret is configured', () => {
+    const provider = createProvider({});
+    expect(provider.verifyWebhook(signedHeaders(rawBody), rawBody, 'callback-token')).toBe(false);
+  });
+});
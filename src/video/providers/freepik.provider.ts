@@ -0,0 +1,331 @@
+import { Injectable, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import type { AdvancedGenerateVideoRequest, GenerateVideoResponse } from '../video.service';
+import { VideoProvider, VideoProviderName } from './video-provider';
+
+interface FreepikVideoRequest {
+  webhook_url?: string;
+  image: string;
+  image_tail?: string;
+  prompt: string;
+  negative_prompt?: string;
+  duration: string;
+  cfg_scale: number;
+  static_mask?: string;
+  dynamic_masks?: Array<{
+    mask: string;
+    trajectories: Array<{
+      x: number;
+      y: number;
+    }>;
+  }>;
+}
+
+interface FreepikTaskResponse {
+  data: {
+    task_id: string;
+    status: string;
+    generated: string[];
+  };
+}
+
+/**
+ * Freepik Kling v2.1 Pro image-to-video
+ */
+@Injectable()
+export class FreepikVideoProvider implements VideoProvider {
+  readonly name: VideoProviderName = 'freepik';
+  readonly model = 'kling-v2-1-pro';
+  private readonly freepikApiKey: string;
+  private readonly freepikBaseUrl = 'https://api.freepik.com/v1/ai/image-to-video/kling-v2-1-pro';
+  private readonly webhookToken: string;
+  private readonly webhookSecret: string;
+  private readonly webhookUrl: string | null;
+  private readonly pollInterval: number;
+  private readonly taskTimeout: number;
+  private readonly pendingTasks = new Map<string, { resolve: (videoUrl: string) => void; reject: (error: Error) => void }>();
+
+  constructor(private configService: ConfigService) {
+    this.freepikApiKey = this.configService.get<string>('FREEPIK_API_KEY');
+    this.webhookToken = this.configService.get<string>('FREEPIK_WEBHOOK_TOKEN');
+    this.webhookSecret = this.configService.get<string>('FREEPIK_WEBHOOK_SECRET');
+
+    // Webhooks need a public URL and a way to authenticate callbacks, otherwise fall back to polling only
+    const baseUrl = this.configService.get<string>('BASE_DEPLOYED_URL');
+    this.webhookUrl = baseUrl && (this.webhookToken || this.webhookSecret)
+      ? `${baseUrl.replace(/\/$/, '')}/video/webhook${this.webhookToken ? `?token=${encodeURIComponent(this.webhookToken)}` : ''}`
+      : null;
+
+    const defaultInterval = this.webhookUrl ? '60000' : '20000';
+    this.pollInterval = parseInt(this.configService.get<string>('FREEPIK_POLL_INTERVAL_MS') || defaultInterval, 10);
+    this.taskTimeout = parseInt(this.configService.get<string>('FREEPIK_TASK_TIMEOUT_MS') || '300000', 10);
+  }
+
+  isConfigured(): boolean {
+    return !!this.freepikApiKey;
+  }
+
+  async generateVideo(
+    { imageBase64, prompt, duration = "5", ...options }: AdvancedGenerateVideoRequest,
+    signal?: AbortSignal
+  ): Promise<GenerateVideoResponse> {
+    if (!this.freepikApiKey) {
+      throw new InternalServerErrorException('FREEPIK_API_KEY environment variable is required');
+    }
+
+    // Step 1: Create the video generation task with all options
+    const taskId = await this.createVideoTask(imageBase64, prompt, duration, options, signal);
+    
+    // Step 2: Wait for the webhook (or the safety-net poll) to report completion
+    const videoUrl = await this.waitForTaskCompletion(taskId, signal);
+
+    return {
+      videoUrl: videoUrl,
+      taskId: taskId,
+      provider: this.name,
+      model: this.model,
+      result: {
+        taskId: taskId,
+        status: 'COMPLETED',
+        videoUrl: videoUrl
+      }
+    };
+  }
+
+  private async createVideoTask(
+    imageBase64: string, 
+    prompt: string, 
+    duration: string,
+    options?: Partial<AdvancedGenerateVideoRequest>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    try {
+      if (!imageBase64) {
+        throw new BadRequestException('Image base64 data is required');
+      }
+
+      // Remove data URL prefix if present (data:image/jpeg;base64,)
+      const base64Data = imageBase64.replace(/^data:image\/[a-z]+;base64,/, '');
+      
+      if (!base64Data) {
+        throw new BadRequestException('Invalid base64 image data');
+      }
+
+      console.log('📤 Creating video generation task with Freepik API...');
+      
+      // Prepare the complete request body as per the cURL specification
+      const requestBody: FreepikVideoRequest = {
+        webhook_url: options?.webhookUrl || this.webhookUrl || undefined,
+        image: base64Data,
+        image_tail: options?.imageTail, // Optional field - can be set to undefined/null
+        prompt: prompt,
+        negative_prompt: options?.negativePrompt, // Optional field - can be set to undefined/null
+        duration: duration,
+        cfg_scale: options?.cfgScale ?? 0.5, // Default value from cURL, use nullish coalescing to allow 0
+        static_mask: options?.staticMask, // Optional field - can be set to undefined/null
+        dynamic_masks: options?.dynamicMasks // Optional field - can be set to undefined/null
+      };
+
+      // Remove undefined fields to clean up the request
+      const cleanedRequestBody = Object.fromEntries(
+        Object.entries(requestBody).filter(([_, value]) => value !== undefined)
+      );
+
+      console.log('📋 Request body fields:', Object.keys(cleanedRequestBody).join(', '));
+      if (options?.negativePrompt) console.log('🚫 Using negative prompt:', options.negativePrompt);
+      if (options?.cfgScale !== undefined) console.log('⚙️  CFG Scale:', options.cfgScale);
+      
+      const response = await axios.post(
+        this.freepikBaseUrl,
+        cleanedRequestBody,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-freepik-api-key': this.freepikApiKey
+          },
+          signal
+        }
+      );
+
+      if (!response.data?.data?.task_id) {
+        throw new InternalServerErrorException('Invalid response from Freepik API');
+      }
+
+      console.log(`✅ Video task created successfully with ID: ${response.data.data.task_id}`);
+      
+      return response.data.data.task_id;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      if (error.response) {
+        console.error('Freepik API error:', error.response.data);
+        throw new InternalServerErrorException(`Freepik API error: ${error.response.data?.message || error.message}`);
+      }
+      throw new InternalServerErrorException(`Error creating video task: ${error.message}`);
+    }
+  }
+
+  /**
+   * Resolves when either the webhook or the safety-net poll reports the task as finished.
+   * Aborting the signal gives up on the task: polling stops and a late webhook is ignored.
+   */
+  private waitForTaskCompletion(taskId: string, signal?: AbortSignal): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      this.pendingTasks.set(taskId, { resolve, reject });
+      signal?.addEventListener('abort', () => {
+        console.warn(`⏹️ Stopped waiting for Freepik task ${taskId}`);
+        this.settleTask(taskId, { error: new InternalServerErrorException('Video generation was cancelled') });
+      }, { once: true });
+
+      this.pollTaskStatus(taskId, signal)
+        .then(videoUrl => videoUrl && this.settleTask(taskId, { videoUrl }))
+        .catch(error => this.settleTask(taskId, { error }));
+    });
+  }
+
+  private settleTask(taskId: string, outcome: { videoUrl?: string; error?: Error }): boolean {
+    const pending = this.pendingTasks.get(taskId);
+    if (!pending) {
+      return false;
+    }
+
+    this.pendingTasks.delete(taskId);
+    if (outcome.error) {
+      pending.reject(outcome.error);
+    } else {
+      pending.resolve(outcome.videoUrl);
+    }
+    return true;
+  }
+
+  /**
+   * Authenticate a webhook call: either the shared token embedded in the webhook URL or a
+   * Standard Webhooks signature (webhook-id / webhook-timestamp / webhook-signature headers)
+   */
+  verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: string, token?: string): boolean {
+    if (this.webhookToken && token && safeEqual(token, this.webhookToken)) {
+      return true;
+    }
+
+    if (!this.webhookSecret) {
+      return false;
+    }
+
+    const webhookId = headers['webhook-id'] as string;
+    const timestamp = headers['webhook-timestamp'] as string;
+    const signatureHeader = headers['webhook-signature'] as string;
+    if (!webhookId || !timestamp || !signatureHeader) {
+      return false;
+    }
+
+    // Reject replays of old deliveries
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > 5 * 60) {
+      return false;
+    }
+
+    const key = this.webhookSecret.startsWith('whsec_')
+      ? Buffer.from(this.webhookSecret.slice('whsec_'.length), 'base64')
+      : Buffer.from(this.webhookSecret);
+    const expected = createHmac('sha256', key).update(`${webhookId}.${timestamp}.${rawBody}`).digest('base64');
+
+    // The header may carry several space separated "v1,<signature>" entries
+    return signatureHeader
+      .split(' ')
+      .map(entry => entry.split(',')[1])
+      .some(signature => signature && safeEqual(signature, expected));
+  }
+
+  /**
+   * Complete the waiting generation for a task reported by a Freepik webhook
+   */
+  handleWebhook(payload: any): { taskId?: string; status?: string; matched: boolean } {
+    const data = payload?.data ?? payload;
+    const taskId: string = data?.task_id;
+    const status: string = data?.status;
+
+    if (!taskId) {
+      return { matched: false };
+    }
+
+    console.log(`📨 Freepik webhook for task ${taskId}: ${status}`);
+
+    if (status === 'COMPLETED' && data.generated?.length > 0) {
+      return { taskId, status, matched: this.settleTask(taskId, { videoUrl: data.generated[0] }) };
+    }
+
+    if (status === 'FAILED' || status === 'ERROR') {
+      const error = new InternalServerErrorException(`Video generation failed with status: ${status}`);
+      return { taskId, status, matched: this.settleTask(taskId, { error }) };
+    }
+
+    return { taskId, status, matched: this.pendingTasks.has(taskId) };
+  }
+
+  /**
+   * Safety-net polling. Runs slowly when webhooks are enabled and stops as soon as the
+   * task has been settled by a webhook or cancelled (returns null in that case).
+   */
+  private async pollTaskStatus(taskId: string, signal?: AbortSignal): Promise<string | null> {
+    const pollInterval = this.pollInterval;
+    const maxAttempts = Math.max(1, Math.ceil(this.taskTimeout / pollInterval));
+
+    console.log(`🔄 Starting to poll task status for ID: ${taskId} (every ${pollInterval / 1000}s${this.webhookUrl ? ', webhook enabled' : ''})`);
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await sleep(pollInterval, undefined, { signal }).catch(() => undefined);
+      if (!this.pendingTasks.has(taskId)) {
+        return null;
+      }
+
+      try {
+        console.log(`📡 Polling attempt ${attempt}/${maxAttempts}...`);
+        
+        const response = await axios.get<FreepikTaskResponse>(
+          `https://api.freepik.com/v1/ai/image-to-video/kling-v2-1/${taskId}`,
+          {
+            headers: {
+              'x-freepik-api-key': this.freepikApiKey
+            },
+            signal
+          }
+        );
+
+        const status = response.data.data.status;
+        console.log(`📊 Task status: ${status}`);
+
+        if (status === 'COMPLETED' && response.data.data.generated.length > 0) {
+          const videoUrl = response.data.data.generated[0];
+          console.log(`✅ Video generation completed! URL: ${videoUrl}`);
+          return videoUrl;
+        }
+
+        if (status === 'FAILED' || status === 'ERROR') {
+          throw new InternalServerErrorException(`Video generation failed with status: ${status}`);
+        }
+      } catch (error) {
+        if (!this.pendingTasks.has(taskId)) {
+          return null; // Cancelled (or settled by a webhook) while the request was in flight
+        }
+        if (error.response?.status === 404) {
+          throw new InternalServerErrorException('Task not found');
+        }
+        if (error instanceof InternalServerErrorException) {
+          throw error;
+        }
+        console.error(`❌ Error polling task status (attempt ${attempt}):`, error.message);
+      }
+    }
+
+    throw new InternalServerErrorException(`Video generation timed out after ${Math.round(this.taskTimeout / 1000)}s`);
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import type { AdvancedGenerateVideoRequest, GenerateVideoResponse } from '../video.service';
+import { VideoProvider, VideoProviderName } from './video-provider';
+
+/**
+ * Local stand-in that returns a fixed clip without calling any paid API (dev and testing)
+ */
+@Injectable()
+export class StubVideoProvider implements VideoProvider {
+  readonly name: VideoProviderName = 'stub';
+  readonly model = 'stub';
+  private readonly videoUrl: string;
+
+  constructor(private configService: ConfigService) {
+    this.videoUrl = this.configService.get<string>('STUB_VIDEO_URL') ||
+      'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateVideo({ prompt, duration = "5" }: AdvancedGenerateVideoRequest): Promise<GenerateVideoResponse> {
+    const taskId = `stub-${randomUUID()}`;
+    console.log(`🧪 Stub video provider returning sample clip for task ${taskId}`);
+
+    return {
+      videoUrl: this.videoUrl,
+      taskId,
+      provider: this.name,
+      model: this.model,
+      result: {
+        taskId,
+        status: 'COMPLETED',
+        videoUrl: this.videoUrl,
+        prompt,
+        duration
+      }
+    };
+  }
+}
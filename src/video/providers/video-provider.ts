@@ -0,0 +1,17 @@
+import type { AdvancedGenerateVideoRequest, GenerateVideoResponse } from '../video.service';
+
+export type VideoProviderName = 'freepik' | 'fal' | 'stub';
+
+export const VIDEO_PROVIDER_NAMES: VideoProviderName[] = ['freepik', 'fal', 'stub'];
+
+/**
+ * A backend that turns an image + prompt into a video clip.
+ * Implementations resolve only once the clip URL is available, and stop waiting
+ * (polling, webhooks) once `signal` is aborted because the caller gave up.
+ */
+export interface VideoProvider {
+  readonly name: VideoProviderName;
+  readonly model: string;
+  isConfigured(): boolean;
+  generateVideo(request: AdvancedGenerateVideoRequest, signal?: AbortSignal): Promise<GenerateVideoResponse>;
+}
@@ -0,0 +1,201 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { JsonFileStore } from '../util/json-store';
+import { pickDefinedFields } from '../util/pick-fields';
+import { generatePromptFromBuffer } from '../util/gemini-helper';
+
+export type VideoPromptStrategy = 'fixed' | 'template' | 'generated';
+
+export const VIDEO_PROMPT_STRATEGIES: VideoPromptStrategy[] = ['fixed', 'template', 'generated'];
+
+export interface VideoPromptTemplate {
+  name: string;
+  prompt: string;
+  negativePrompt?: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VideoPromptTemplateInput = Partial<Omit<VideoPromptTemplate, 'createdAt' | 'updatedAt'>>;
+
+// What PUT /video/prompt-templates/:name may change; the name is the key
+const EDITABLE_FIELDS: Array<keyof VideoPromptTemplateInput> = ['prompt', 'negativePrompt', 'description'];
+
+export interface VideoPromptOptions {
+  strategy?: VideoPromptStrategy; // Defaults to VIDEO_PROMPT_STRATEGY, then "fixed"
+  prompt?: string; // Text for the "fixed" strategy
+  template?: string; // Library template for "template", or the guide for "generated"
+  negativePrompt?: string; // Overrides the template's negative prompt
+}
+
+export interface ResolvedVideoPrompt {
+  strategy: VideoPromptStrategy;
+  prompt: string;
+  negativePrompt?: string;
+  template?: string;
+  generationError?: string; // Set when Gemini failed and the template prompt was used instead
+}
+
+export const DEFAULT_VIDEO_PROMPT = "Create a dynamic video from this image. Add natural movement and life to the scene: gentle camera motion, moving elements like leaves, water, clouds, or people if present. Keep it smooth and realistic. Focus on bringing the static image to life with subtle animations and flowing movements. Dont add anything not present in the image. The main aim of the video is to make the image dynamic by motion.";
+
+// Seeded on start when missing and can't be deleted, since runs without a template fall back to it
+const DEFAULT_TEMPLATE_NAME = 'default';
+
+/**
+ * Decides the motion prompt for a video: a fixed text, a named template from the
+ * managed library, or a Gemini prompt written for the image with the template as a guide
+ */
+@Injectable()
+export class VideoPromptService {
+  private readonly logger = new Logger(VideoPromptService.name);
+  private readonly store = new JsonFileStore<VideoPromptTemplate>('video-prompt-templates');
+
+  constructor() {
+    if (!this.store.get(DEFAULT_TEMPLATE_NAME)) {
+      this.createTemplate({
+        name: DEFAULT_TEMPLATE_NAME,
+        prompt: DEFAULT_VIDEO_PROMPT,
+        description: 'Subtle, realistic motion that brings the still image to life',
+      });
+    }
+  }
+
+  listTemplates(): VideoPromptTemplate[] {
+    return this.store.getAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getTemplate(name: string): VideoPromptTemplate {
+    const template = this.store.get(name);
+    if (!template) {
+      throw new NotFoundException(`Video prompt template "${name}" not found`);
+    }
+    return template;
+  }
+
+  createTemplate(input: VideoPromptTemplateInput): VideoPromptTemplate {
+    if (!input.name || !/^[a-zA-Z0-9_-]+$/.test(input.name)) {
+      throw new BadRequestException('Template name is required and may only contain letters, numbers, "-" and "_"');
+    }
+    if (this.store.get(input.name)) {
+      throw new ConflictException(`Video prompt template "${input.name}" already exists`);
+    }
+    if (!input.prompt?.trim()) {
+      throw new BadRequestException('prompt is required');
+    }
+
+    const now = new Date().toISOString();
+    const template: VideoPromptTemplate = {
+      name: input.name,
+      prompt: input.prompt.trim(),
+      negativePrompt: input.negativePrompt,
+      description: input.description,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.set(template.name, template);
+    this.logger.log(`📝 Video prompt template "${template.name}" created`);
+    return template;
+  }
+
+  updateTemplate(name: string, input: VideoPromptTemplateInput): VideoPromptTemplate {
+    const template = this.getTemplate(name);
+    const updated: VideoPromptTemplate = {
+      ...template,
+      ...pickDefinedFields(input, EDITABLE_FIELDS),
+      updatedAt: new Date().toISOString(),
+    };
+    if (!updated.prompt?.trim()) {
+      throw new BadRequestException('prompt cannot be empty');
+    }
+
+    this.store.set(name, updated);
+    this.logger.log(`📝 Video prompt template "${name}" updated`);
+    return updated;
+  }
+
+  deleteTemplate(name: string): void {
+    if (name === DEFAULT_TEMPLATE_NAME || name === process.env.VIDEO_PROMPT_TEMPLATE) {
+      throw new BadRequestException(`Video prompt template "${name}" is the default template and can't be deleted`);
+    }
+    if (!this.store.delete(name)) {
+      throw new NotFoundException(`Video prompt template "${name}" not found`);
+    }
+    this.logger.log(`🗑️ Video prompt template "${name}" deleted`);
+  }
+
+  /**
+   * Checks a run's prompt options up front so a bad template name fails before queuing
+   */
+  validateOptions(options: VideoPromptOptions = {}): void {
+    const strategy = options.strategy || this.defaultStrategy();
+    if (!VIDEO_PROMPT_STRATEGIES.includes(strategy)) {
+      throw new BadRequestException(`Invalid video prompt strategy. Expected one of: ${VIDEO_PROMPT_STRATEGIES.join(', ')}`);
+    }
+    if (strategy !== 'fixed' && options.template) {
+      this.getTemplate(options.template);
+    }
+  }
+
+  /**
+   * Resolves the prompt for one video. `imageBase64` is the converted image (data URI or raw base64)
+   * and is only used by the "generated" strategy.
+   */
+  async resolvePrompt(options: VideoPromptOptions = {}, imageBase64?: string): Promise<ResolvedVideoPrompt> {
+    this.validateOptions(options);
+    const strategy = options.strategy || this.defaultStrategy();
+
+    if (strategy === 'fixed') {
+      return {
+        strategy,
+        prompt: options.prompt?.trim() || DEFAULT_VIDEO_PROMPT,
+        negativePrompt: options.negativePrompt,
+      };
+    }
+
+    const template = this.getTemplate(options.template || process.env.VIDEO_PROMPT_TEMPLATE || DEFAULT_TEMPLATE_NAME);
+    const resolved: ResolvedVideoPrompt = {
+      strategy,
+      prompt: template.prompt,
+      negativePrompt: options.negativePrompt ?? template.negativePrompt,
+      template: template.name,
+    };
+    if (strategy === 'template') {
+      return resolved;
+    }
+
+    if (!imageBase64) {
+      throw new BadRequestException('An image is required for the "generated" prompt strategy');
+    }
+
+    try {
+      const match = imageBase64.match(/^data:([^;]+);base64,(.*)$/s);
+      const buffer = Buffer.from(match ? match[2] : imageBase64, 'base64');
+      const generated = await generatePromptFromBuffer(buffer, match ? match[1] : 'image/jpeg', this.buildGenerationPrompt(template, resolved.negativePrompt));
+      const prompt = generated.trim().replace(/^["'`]+|["'`]+$/g, '').trim();
+      if (!prompt) {
+        throw new Error('Gemini returned an empty prompt');
+      }
+      return { ...resolved, prompt };
+    } catch (error) {
+      this.logger.warn(`⚠️ Prompt generation failed, using template "${template.name}": ${error.message}`);
+      return { ...resolved, generationError: error.message };
+    }
+  }
+
+  private defaultStrategy(): VideoPromptStrategy {
+    return (process.env.VIDEO_PROMPT_STRATEGY as VideoPromptStrategy) || 'fixed';
+  }
+
+  private buildGenerationPrompt(template: VideoPromptTemplate, negativePrompt?: string): string {
+    return `You write motion prompts for an image-to-video model. Look at this image and write one prompt describing how the scene should move: camera motion, which elements move and how, pacing and mood.
+
+Use this template as a guide for style and intent, adapting it to what is actually in the image:
+"${template.prompt}"
+${negativePrompt ? `\nThe video must avoid: ${negativePrompt}\n` : ''}
+Rules:
+- Only animate things that are visible in the image; do not add new objects or people
+- Keep it under 80 words, in a single paragraph
+- Return only the prompt text, with no preamble, quotes or markdown`;
+  }
+}
@@ -1,10 +1,15 @@
-import { Controller, Post, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, HttpStatus, HttpCode, Req, Query, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
 import { VideoService, GenerateVideoRequest, GenerateVideoResponse, AdvancedGenerateVideoRequest } from './video.service';
+import { VideoProviderName } from './providers/video-provider';
+import { VideoPromptService } from './video-prompt.service';
 
 export class GenerateVideoDto {
   imageBase64: string;
   prompt: string;
   duration?: "5" | "10";
+  provider?: VideoProviderName;
+  fallbackProviders?: VideoProviderName[];
 }
 
 export class AdvancedGenerateVideoDto extends GenerateVideoDto {
@@ -22,9 +27,19 @@ export class AdvancedGenerateVideoDto extends GenerateVideoDto {
   }>;
 }
 
+export class VideoPromptTemplateDto {
+  name?: string;
+  prompt?: string;
+  negativePrompt?: string;
+  description?: string;
+}
+
 @Controller('video')
 export class VideoController {
-  constructor(private readonly videoService: VideoService) {}
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly videoPromptService: VideoPromptService,
+  ) {}
 
   @Post('generate')
   @HttpCode(HttpStatus.OK)
@@ -37,4 +52,52 @@ export class VideoController {
   async generateAdvancedVideo(@Body() generateVideoDto: AdvancedGenerateVideoDto): Promise<GenerateVideoResponse> {
     return this.videoService.generateVideo(generateVideoDto);
   }
+
+  /**
+   * Freepik task callbacks - URL is derived from BASE_DEPLOYED_URL and sent with each task
+   * POST /video/webhook
+   */
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() payload: any,
+    @Query('token') token?: string,
+  ) {
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(payload);
+    return this.videoService.handleFreepikWebhook(req.headers, rawBody, token, payload);
+  }
+
+  @Get('prompt-templates')
+  listPromptTemplates() {
+    const templates = this.videoPromptService.listTemplates();
+    return {
+      templates,
+      count: templates.length
+    };
+  }
+
+  @Get('prompt-templates/:name')
+  getPromptTemplate(@Param('name') name: string) {
+    return this.videoPromptService.getTemplate(name);
+  }
+
+  @Post('prompt-templates')
+  createPromptTemplate(@Body() templateDto: VideoPromptTemplateDto) {
+    return this.videoPromptService.createTemplate(templateDto);
+  }
+
+  @Put('prompt-templates/:name')
+  updatePromptTemplate(@Param('name') name: string, @Body() templateDto: VideoPromptTemplateDto) {
+    return this.videoPromptService.updateTemplate(name, templateDto);
+  }
+
+  @Delete('prompt-templates/:name')
+  deletePromptTemplate(@Param('name') name: string) {
+    this.videoPromptService.deleteTemplate(name);
+    return {
+      message: 'Video prompt template deleted successfully',
+      name
+    };
+  }
 }
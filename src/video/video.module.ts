@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { VideoController } from './video.controller';
 import { VideoService } from './video.service';
+import { FreepikVideoProvider } from './providers/freepik.provider';
+import { FalVideoProvider } from './providers/fal.provider';
+import { StubVideoProvider } from './providers/stub.provider';
+import { VideoPromptService } from './video-prompt.service';
 
 @Module({
   controllers: [VideoController],
-  providers: [VideoService],
-  exports: [VideoService],
+  providers: [VideoService, VideoPromptService, FreepikVideoProvider, FalVideoProvider, StubVideoProvider],
+  exports: [VideoService, VideoPromptService],
 })
 export class VideoModule {}
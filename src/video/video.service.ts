@@ -1,11 +1,16 @@
-import { Injectable, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { Injectable, BadRequestException, InternalServerErrorException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { VideoProvider, VideoProviderName, VIDEO_PROVIDER_NAMES } from './providers/video-provider';
+import { FreepikVideoProvider } from './providers/freepik.provider';
+import { FalVideoProvider } from './providers/fal.provider';
+import { StubVideoProvider } from './providers/stub.provider';
 
 export interface GenerateVideoRequest {
   imageBase64: string;
   prompt: string;
   duration?: "5" | "10";
+  provider?: VideoProviderName; // Primary provider, defaults to the first entry of VIDEO_PROVIDERS
+  fallbackProviders?: VideoProviderName[]; // Tried in order when the primary errors or times out
 }
 
 export interface AdvancedGenerateVideoRequest extends GenerateVideoRequest {
@@ -23,217 +28,143 @@ export interface AdvancedGenerateVideoRequest extends GenerateVideoRequest {
   }>;
 }
 
-interface FreepikVideoRequest {
-  webhook_url: string;
-  image: string;
-  image_tail?: string;
-  prompt: string;
-  negative_prompt?: string;
-  duration: string;
-  cfg_scale: number;
-  static_mask?: string;
-  dynamic_masks?: Array<{
-    mask: string;
-    trajectories: Array<{
-      x: number;
-      y: number;
-    }>;
-  }>;
-}
-
 export interface GenerateVideoResponse {
   videoUrl: string;
   taskId: string;
+  provider: VideoProviderName;
+  model: string;
   result: any;
-}
-
-interface FreepikTaskResponse {
-  data: {
-    task_id: string;
-    status: string;
-    generated: string[];
-  };
+  attempts?: Array<{ provider: VideoProviderName; error: string }>; // Providers that failed before this one
 }
 
 @Injectable()
 export class VideoService {
-  private readonly freepikApiKey: string;
-  private readonly freepikBaseUrl = 'https://api.freepik.com/v1/ai/image-to-video/kling-v2-1-pro';
+  private readonly providers: Record<VideoProviderName, VideoProvider>;
+  private readonly freepikProvider: FreepikVideoProvider;
+  private readonly defaultChain: VideoProviderName[];
+  private readonly providerTimeout: number;
+
+  constructor(
+    private configService: ConfigService,
+    freepikProvider: FreepikVideoProvider,
+    falProvider: FalVideoProvider,
+    stubProvider: StubVideoProvider,
+  ) {
+    this.freepikProvider = freepikProvider;
+    this.providers = {
+      freepik: freepikProvider,
+      fal: falProvider,
+      stub: stubProvider,
+    };
+
+    // e.g. VIDEO_PROVIDERS=freepik,fal - first is the primary, the rest are fallbacks
+    this.defaultChain = this.parseProviderList(this.configService.get<string>('VIDEO_PROVIDERS') || 'freepik');
+    this.providerTimeout = parseInt(this.configService.get<string>('VIDEO_PROVIDER_TIMEOUT_MS') || '360000', 10);
+  }
 
-  constructor(private configService: ConfigService) {
-    this.freepikApiKey = this.configService.get<string>('FREEPIK_API_KEY');
-    if (!this.freepikApiKey) {
-      throw new Error('FREEPIK_API_KEY environment variable is required');
+  private parseProviderList(value: string): VideoProviderName[] {
+    const names = value.split(',').map(name => name.trim()).filter(Boolean) as VideoProviderName[];
+    const invalid = names.filter(name => !VIDEO_PROVIDER_NAMES.includes(name));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown video provider(s): ${invalid.join(', ')}. Expected: ${VIDEO_PROVIDER_NAMES.join(', ')}`);
     }
+    return names;
   }
 
+  /**
+   * Resolve the ordered, de-duplicated provider chain for a request: explicit fallbacks
+   * replace the configured ones, an explicit primary is simply moved to the front
+   */
+  private resolveChain(request: GenerateVideoRequest): VideoProviderName[] {
+    const primary = request.provider || this.defaultChain[0];
+    const fallbacks = request.fallbackProviders || this.defaultChain;
+    const chain = Array.from(new Set([primary, ...fallbacks]));
+
+    const invalid = chain.filter(name => !VIDEO_PROVIDER_NAMES.includes(name));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Unknown video provider(s): ${invalid.join(', ')}. Expected: ${VIDEO_PROVIDER_NAMES.join(', ')}`);
+    }
+    return chain;
+  }
 
+  /**
+   * Run a provider with the per-provider timeout; on timeout its signal is aborted so it stops polling
+   */
+  private withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, providerName: string): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`${providerName} timed out after ${Math.round(this.providerTimeout / 1000)}s`);
+        controller.abort(error);
+        reject(error);
+      }, this.providerTimeout);
+    });
+    return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+  }
 
-  private async createVideoTask(
-    imageBase64: string, 
-    prompt: string, 
-    duration: string,
-    options?: Partial<AdvancedGenerateVideoRequest>
-  ): Promise<string> {
-    try {
-      if (!imageBase64) {
-        throw new BadRequestException('Image base64 data is required');
-      }
+  async generateVideo(request: AdvancedGenerateVideoRequest): Promise<GenerateVideoResponse> {
+    const { imageBase64, prompt, duration = "5" } = request;
 
-      // Remove data URL prefix if present (data:image/jpeg;base64,)
-      const base64Data = imageBase64.replace(/^data:image\/[a-z]+;base64,/, '');
-      
-      if (!base64Data) {
-        throw new BadRequestException('Invalid base64 image data');
-      }
+    if (!imageBase64 || !prompt) {
+      throw new BadRequestException('imageBase64 and prompt are required');
+    }
 
-      console.log('📤 Creating video generation task with Freepik API...');
-      
-      // Prepare the complete request body as per the cURL specification
-      const requestBody: FreepikVideoRequest = {
-        webhook_url: options?.webhookUrl || "https://www.example.com/webhook",
-        image: base64Data,
-        image_tail: options?.imageTail, // Optional field - can be set to undefined/null
-        prompt: prompt,
-        negative_prompt: options?.negativePrompt, // Optional field - can be set to undefined/null
-        duration: duration,
-        cfg_scale: options?.cfgScale ?? 0.5, // Default value from cURL, use nullish coalescing to allow 0
-        static_mask: options?.staticMask, // Optional field - can be set to undefined/null
-        dynamic_masks: options?.dynamicMasks // Optional field - can be set to undefined/null
-      };
-
-      // Remove undefined fields to clean up the request
-      const cleanedRequestBody = Object.fromEntries(
-        Object.entries(requestBody).filter(([_, value]) => value !== undefined)
-      );
-
-      console.log('📋 Request body fields:', Object.keys(cleanedRequestBody).join(', '));
-      if (options?.negativePrompt) console.log('🚫 Using negative prompt:', options.negativePrompt);
-      if (options?.cfgScale !== undefined) console.log('⚙️  CFG Scale:', options.cfgScale);
-      
-      const response = await axios.post(
-        this.freepikBaseUrl,
-        cleanedRequestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-freepik-api-key': this.freepikApiKey
-          }
-        }
-      );
+    const chain = this.resolveChain(request);
+    const attempts: Array<{ provider: VideoProviderName; error: string }> = [];
 
-      if (!response.data?.data?.task_id) {
-        throw new InternalServerErrorException('Invalid response from Freepik API');
-      }
+    console.log('🎬 Starting video generation...');
+    console.log("⏱️  Duration:", duration, "seconds");
+    console.log(`🔗 Provider chain: ${chain.join(' → ')}\n`);
 
-      console.log(`✅ Video task created successfully with ID: ${response.data.data.task_id}`);
-      
-      return response.data.data.task_id;
-    } catch (error) {
-      if (error instanceof BadRequestException) {
-        throw error;
-      }
-      if (error.response) {
-        console.error('Freepik API error:', error.response.data);
-        throw new InternalServerErrorException(`Freepik API error: ${error.response.data?.message || error.message}`);
-      }
-      throw new InternalServerErrorException(`Error creating video task: ${error.message}`);
-    }
-  }
+    for (const providerName of chain) {
+      const provider = this.providers[providerName];
 
-  private async pollTaskStatus(taskId: string): Promise<string> {
-    const maxAttempts = 15; // 5 minutes with 20-second intervals
-    const pollInterval = 20000; // 20 seconds
+      if (!provider.isConfigured()) {
+        console.warn(`⚠️ Skipping video provider ${providerName}: not configured`);
+        attempts.push({ provider: providerName, error: 'Provider not configured' });
+        continue;
+      }
 
-    console.log(`🔄 Starting to poll task status for ID: ${taskId}`);
-    
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        console.log(`📡 Polling attempt ${attempt}/${maxAttempts}...`);
-        
-        const response = await axios.get<FreepikTaskResponse>(
-          `https://api.freepik.com/v1/ai/image-to-video/kling-v2-1/${taskId}`,
-          {
-            headers: {
-              'x-freepik-api-key': this.freepikApiKey
-            }
-          }
-        );
-
-        const status = response.data.data.status;
-        console.log(`📊 Task status: ${status}`);
-
-        if (status === 'COMPLETED' && response.data.data.generated.length > 0) {
-          const videoUrl = response.data.data.generated[0];
-          console.log(`✅ Video generation completed! URL: ${videoUrl}`);
-          return videoUrl;
-        }
+        console.log(`🎥 Generating video with ${providerName} (${provider.model})...`);
+        const response = await this.withTimeout(signal => provider.generateVideo({ ...request, duration }, signal), providerName);
 
-        if (status === 'FAILED' || status === 'ERROR') {
-          throw new InternalServerErrorException(`Video generation failed with status: ${status}`);
-        }
+        console.log("\n✅ Video generation completed!");
+        console.log("📹 Video URL:", response.videoUrl);
 
-        // Wait before next poll
-        if (attempt < maxAttempts) {
-          console.log(`⏳ Waiting ${pollInterval / 1000}s before next poll...`);
-          await new Promise(resolve => setTimeout(resolve, pollInterval));
-        }
+        return attempts.length > 0 ? { ...response, attempts } : response;
       } catch (error) {
-        if (error.response?.status === 404) {
-          throw new InternalServerErrorException('Task not found');
-        }
-        if (error instanceof InternalServerErrorException) {
+        if (error instanceof BadRequestException) {
           throw error;
         }
-        console.error(`❌ Error polling task status (attempt ${attempt}):`, error.message);
-        
-        if (attempt === maxAttempts) {
-          throw new InternalServerErrorException(`Failed to get task status after ${maxAttempts} attempts`);
-        }
-        
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        console.error(`❌ Video provider ${providerName} failed: ${error.message}`);
+        attempts.push({ provider: providerName, error: error.message });
       }
     }
 
-    throw new InternalServerErrorException('Video generation timed out after 2 minutes');
+    const summary = attempts.map(attempt => `${attempt.provider}: ${attempt.error}`).join('; ');
+    throw new InternalServerErrorException(`Error generating video: all providers failed (${summary})`);
   }
 
-  async generateVideo({ imageBase64, prompt, duration = "5", ...options }: AdvancedGenerateVideoRequest): Promise<GenerateVideoResponse> {
-    try {
-      console.log('🎬 Starting video generation with Freepik API...');
-      
-      if (!imageBase64 || !prompt) {
-        throw new BadRequestException('imageBase64 and prompt are required');
-      }
-      
-      console.log("⏱️  Duration:", duration, "seconds");
-      console.log("🔄 Creating video generation task...\n");
-      
-      // Step 1: Create the video generation task with all options
-      const taskId = await this.createVideoTask(imageBase64, prompt, duration, options);
-      
-      // Step 2: Poll for task completion with 2-minute timeout
-      const videoUrl = await this.pollTaskStatus(taskId);
-      
-      console.log("\n✅ Video generation completed!");
-      console.log("📹 Video URL:", videoUrl);
-      
-      return {
-        videoUrl: videoUrl,
-        taskId: taskId,
-        result: {
-          taskId: taskId,
-          status: 'COMPLETED',
-          videoUrl: videoUrl
-        }
-      };
-    } catch (error) {
-      if (error instanceof BadRequestException) {
-        throw error;
-      }
-      throw new InternalServerErrorException(`Error generating video: ${error.message}`);
+  /**
+   * Authenticate a Freepik callback and hand it to the generation waiting on that task
+   */
+  handleFreepikWebhook(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+    token: string | undefined,
+    payload: any
+  ) {
+    if (!this.freepikProvider.verifyWebhook(headers, rawBody, token)) {
+      throw new UnauthorizedException('Invalid Freepik webhook credentials');
+    }
+
+    const result = this.freepikProvider.handleWebhook(payload);
+    if (!result.matched) {
+      console.warn(`⚠️ Freepik webhook for unknown or already finished task: ${result.taskId || 'n/a'}`);
     }
+    return { received: true, ...result };
   }
 
   // Convenience method to maintain backward compatibility
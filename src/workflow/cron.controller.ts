@@ -1,8 +1,27 @@
-import { Controller, Post, Get, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
 import { CronService } from './cron.service';
+import { ScheduleService } from './schedule.service';
+import { ImagePoolService, ImageSelectionStrategy } from '../image/image-pool.service';
+import { VideoPromptOptions } from '../video/video-prompt.service';
+import { CaptionOptions } from '../util/caption-helper';
+import { ApprovalChannelName } from '../chat/chat-channels';
+import { ImageFormatName } from '../image/image-formats';
+import { CropOptions } from '../image/image-crop';
+import { FitOptions } from '../image/image-fit';
 
 export class TriggerWorkflowDto {
   imageUrl?: string;
+  imageTag?: string;
+  imageStrategy?: ImageSelectionStrategy;
+  brandProfile?: string;
+  videoPrompt?: VideoPromptOptions;
+  captionVariants?: number;
+  captionTones?: CaptionOptions['tone'][];
+  approvalPolicy?: string;
+  approvalChannels?: ApprovalChannelName[];
+  imageFormats?: ImageFormatName[];
+  imageCrop?: CropOptions;
+  imageFit?: FitOptions;
 }
 
 export class UpdateImagesDto {
@@ -11,47 +30,146 @@ export class UpdateImagesDto {
 
 export class AddImageDto {
   imageUrl: string;
+  tags?: string[];
+  weight?: number;
+  enabled?: boolean;
+}
+
+export class UpdateImageDto {
+  tags?: string[];
+  weight?: number;
+  enabled?: boolean;
+}
+
+export class ScheduleDto {
+  name?: string;
+  cronExpression?: string;
+  timezone?: string;
+  imageUrl?: string;
+  imageTag?: string;
+  imageStrategy?: ImageSelectionStrategy;
+  videoDuration?: "5" | "10";
+  autoPublishToInstagram?: boolean;
+  recipientEmail?: string;
+  brandProfile?: string;
+  videoPrompt?: VideoPromptOptions;
+  captionVariants?: number;
+  captionTones?: CaptionOptions['tone'][];
+  approvalPolicy?: string;
+  approvalChannels?: ApprovalChannelName[];
+  imageFormats?: ImageFormatName[];
+  imageCrop?: CropOptions;
+  imageFit?: FitOptions;
 }
 
 @Controller('workflow-trigger')
 export class CronController {
-  constructor(private readonly cronService: CronService) {}
+  constructor(
+    private readonly cronService: CronService,
+    private readonly scheduleService: ScheduleService,
+    private readonly imagePoolService: ImagePoolService,
+  ) {}
 
   @Post('trigger')
-  @HttpCode(HttpStatus.OK)
-  async triggerWorkflowNow(@Body() triggerDto: TriggerWorkflowDto) {
-    await this.cronService.triggerWorkflowNow(triggerDto.imageUrl);
+  @HttpCode(HttpStatus.ACCEPTED)
+  triggerWorkflowNow(@Body() triggerDto: TriggerWorkflowDto) {
+    const run = this.cronService.triggerWorkflowNow(triggerDto);
     return { 
-      message: 'Workflow triggered successfully',
+      message: 'Workflow queued successfully',
+      jobId: run.runId,
+      status: run.status,
+      statusUrl: `/workflow/jobs/${run.runId}`,
       triggeredAt: new Date().toISOString()
     };
   }
 
   @Get('images')
-  getDefaultImages() {
+  getDefaultImages(@Query('tag') tag?: string) {
+    const images = this.imagePoolService.listImages(tag);
     return {
-      images: this.cronService.getDefaultImages(),
-      count: this.cronService.getDefaultImages().length
+      images,
+      count: images.length
     };
   }
 
   @Post('images')
   @HttpCode(HttpStatus.OK)
   updateDefaultImages(@Body() updateDto: UpdateImagesDto) {
-    this.cronService.updateDefaultImages(updateDto.imageUrls);
+    const images = this.imagePoolService.replaceImages(updateDto.imageUrls);
     return { 
       message: 'Default images updated successfully',
-      count: updateDto.imageUrls.length
+      count: images.length
     };
   }
 
   @Post('images/add')
   @HttpCode(HttpStatus.OK)
   addDefaultImage(@Body() addDto: AddImageDto) {
-    this.cronService.addDefaultImage(addDto.imageUrl);
+    const image = this.imagePoolService.addImage(addDto.imageUrl, addDto);
     return { 
       message: 'Image added to default list',
-      imageUrl: addDto.imageUrl
+      imageUrl: addDto.imageUrl,
+      image
+    };
+  }
+
+  @Put('images/:id')
+  updateImage(@Param('id') imageId: string, @Body() updateDto: UpdateImageDto) {
+    return this.imagePoolService.updateImage(imageId, updateDto);
+  }
+
+  @Delete('images/:id')
+  removeImage(@Param('id') imageId: string) {
+    this.imagePoolService.removeImage(imageId);
+    return {
+      message: 'Image removed from pool',
+      imageId
+    };
+  }
+
+  @Get('schedules')
+  listSchedules() {
+    const schedules = this.scheduleService.listSchedules();
+    return {
+      schedulerEnabled: this.scheduleService.isEnabled(),
+      schedules,
+      count: schedules.length
     };
   }
+
+  @Get('schedules/:name')
+  getSchedule(@Param('name') name: string) {
+    return this.scheduleService.getSchedule(name);
+  }
+
+  @Post('schedules')
+  createSchedule(@Body() scheduleDto: ScheduleDto) {
+    return this.scheduleService.createSchedule(scheduleDto);
+  }
+
+  @Put('schedules/:name')
+  updateSchedule(@Param('name') name: string, @Body() scheduleDto: ScheduleDto) {
+    return this.scheduleService.updateSchedule(name, scheduleDto);
+  }
+
+  @Delete('schedules/:name')
+  deleteSchedule(@Param('name') name: string) {
+    this.scheduleService.deleteSchedule(name);
+    return {
+      message: 'Schedule deleted successfully',
+      name
+    };
+  }
+
+  @Post('schedules/:name/pause')
+  @HttpCode(HttpStatus.OK)
+  pauseSchedule(@Param('name') name: string) {
+    return this.scheduleService.setPaused(name, true);
+  }
+
+  @Post('schedules/:name/resume')
+  @HttpCode(HttpStatus.OK)
+  resumeSchedule(@Param('name') name: string) {
+    return this.scheduleService.setPaused(name, false);
+  }
 }
\ No newline at end of file
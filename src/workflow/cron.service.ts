@@ -1,66 +1,87 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { WorkflowService, WorkflowConfig } from './workflow.service';
+import { WorkflowConfig } from './workflow.service';
+import { WorkflowQueueService } from './workflow-queue.service';
+import { WorkflowRun, WorkflowTrigger } from './workflow-run.service';
+import { ImagePoolService, ImageSelectionStrategy } from '../image/image-pool.service';
+import { ImageService } from '../image/image.service';
+import { BrandProfileService } from '../brand/brand-profile.service';
+import { VideoPromptService } from '../video/video-prompt.service';
+import { ApprovalPolicyService } from '../email/approval-policy.service';
+import { ChatApprovalService } from '../chat/chat-approval.service';
+
+export interface TriggerOptions extends Partial<WorkflowConfig> {
+  imageTag?: string;
+  imageStrategy?: ImageSelectionStrategy;
+}
 
 @Injectable()
 export class CronService {
   private readonly logger = new Logger(CronService.name);
-  private defaultImageUrls: string[] = [];
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly workflowService: WorkflowService,
+    private readonly workflowQueueService: WorkflowQueueService,
+    private readonly imagePoolService: ImagePoolService,
+    private readonly brandProfileService: BrandProfileService,
+    private readonly videoPromptService: VideoPromptService,
+    private readonly approvalPolicyService: ApprovalPolicyService,
+    private readonly chatApprovalService: ChatApprovalService,
+    private readonly imageService: ImageService,
   ) {
-    // Default image URLs for content creation
-    // You can replace these with your own image URLs
-    this.defaultImageUrls = [
-      'https://drive.google.com/file/d/1vjDOt5iDdm8OzZT6mrq95hvRRXKZkLpL/view?usp=drive_link',
-    ];
-    
-    this.logger.log('🚀 Workflow service initialized (Cloud Run mode - no cron jobs)');
-  }
-
-  private getRandomImageUrl(): string {
-    const randomIndex = Math.floor(Math.random() * this.defaultImageUrls.length);
-    return this.defaultImageUrls[randomIndex];
+    this.logger.log('🚀 Workflow trigger service initialized');
   }
 
   // Manual trigger methods for testing
-  async triggerWorkflowNow(imageUrl?: string): Promise<void> {
+  triggerWorkflowNow(options: TriggerOptions = {}, trigger: WorkflowTrigger = 'cron'): WorkflowRun {
     this.logger.log('🔄 Manually triggering workflow...');
     
-    const recipientEmail = this.configService.get<string>('MAIL_USER') || 
+    const recipientEmail = options.recipientEmail ||
+                         this.configService.get<string>('MAIL_USER') || 
                          this.configService.get<string>('CRON_RECIPIENT_EMAIL');
     
-    if (!recipientEmail) {
+    // Fail before queuing rather than at the caption step
+    if (options.brandProfile) {
+      this.brandProfileService.getProfile(options.brandProfile);
+    }
+    const policy = this.approvalPolicyService.resolvePolicy({
+      name: options.approvalPolicy,
+      brandProfile: options.brandProfile,
+      imageTags: options.imageTag ? [options.imageTag] : undefined,
+    });
+
+    const channels = this.chatApprovalService.resolveChannels(options.approvalChannels, options.brandProfile);
+
+    if (!recipientEmail && !policy && channels.includes('email')) {
       throw new Error('No recipient email configured');
     }
+    this.videoPromptService.validateOptions(options.videoPrompt);
+    this.imageService.validateFormats(options.imageFormats);
+    this.imageService.validateCropOptions(options.imageCrop);
+    this.imageService.validateFitOptions(options.imageFit);
 
-    const finalImageUrl = imageUrl || this.getRandomImageUrl();
+    const finalImageUrl = options.imageUrl || this.imagePoolService.selectImage({
+      tag: options.imageTag,
+      strategy: options.imageStrategy,
+    }).url;
     this.logger.log(`📸 Using image: ${finalImageUrl}`);
 
     const workflowConfig: WorkflowConfig = {
       imageUrl: finalImageUrl,
       recipientEmail: recipientEmail,
-      videoDuration: "5"
+      videoDuration: options.videoDuration || "5",
+      autoPublishToInstagram: options.autoPublishToInstagram,
+      brandProfile: options.brandProfile,
+      videoPrompt: options.videoPrompt,
+      captionVariants: options.captionVariants,
+      captionTones: options.captionTones,
+      approvalPolicy: options.approvalPolicy,
+      approvalChannels: options.approvalChannels,
+      imageFormats: options.imageFormats,
+      imageCrop: options.imageCrop,
+      imageFit: options.imageFit
     };
 
-    await this.workflowService.executeCompleteWorkflow(workflowConfig);
-  }
-
-  updateDefaultImages(imageUrls: string[]): void {
-    this.defaultImageUrls = imageUrls;
-    this.logger.log(`📸 Updated default image URLs (${imageUrls.length} images)`);
-  }
-
-  // Method to add a new image URL
-  addDefaultImage(imageUrl: string): void {
-    this.defaultImageUrls.push(imageUrl);
-    this.logger.log(`📸 Added new default image: ${imageUrl}`);
-  }
-
-  // Method to get current image URLs
-  getDefaultImages(): string[] {
-    return [...this.defaultImageUrls];
+    return this.workflowQueueService.enqueue(workflowConfig, trigger);
   }
-}
\ No newline at end of file
+}
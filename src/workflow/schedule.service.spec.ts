@@ -0,0 +1,121 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScheduleService } from './schedule.service';
+import { CronService } from './cron.service';
+import { BrandProfileService } from '../brand/brand-profile.service';
+import { VideoPromptService } from '../video/video-prompt.service';
+import { ApprovalPolicyService } from '../email/approval-policy.service';
+import { ChatApprovalService } from '../chat/chat-approval.service';
+import { ImageService } from '../image/image.service';
+
+describe('ScheduleService', () => {
+  let dataDir: string;
+  let cronService: { triggerWorkflowNow: jest.Mock };
+  let service: ScheduleService;
+
+  const createService = async (enabled: boolean) => {
+    const noop = () => undefined;
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ScheduleService,
+        { provide: ConfigService, useValue: new ConfigService({ SCHEDULER_ENABLED: String(enabled) }) },
+        { provide: CronService, useValue: cronService },
+        // References are checked by their own services; these accept everything
+        { provide: BrandProfileService, useValue: { getProfile: noop } },
+        { provide: VideoPromptService, useValue: { validateOptions: noop } },
+        { provide: ApprovalPolicyService, useValue: { getPolicy: noop } },
+        { provide: ChatApprovalService, useValue: { validateChannels: noop } },
+        { provide: ImageService, useValue: { validateFormats: noop, validateCropOptions: noop, validateFitOptions: noop } },
+      ],
+    }).compile();
+    return moduleRef.get(ScheduleService);
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-'));
+    process.env.DATA_DIR = dataDir;
+    jest.useFakeTimers({ now: new Date('2024-01-15T06:30:00.000Z') });
+    cronService = { triggerWorkflowNow: jest.fn(() => ({ runId: 'run-1' })) };
+    service = await createService(true);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('computes the next run in the schedule\'s timezone', () => {
+    const schedule = service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *', timezone: 'Europe/Berlin' });
+
+    expect(schedule.nextRunAt).toBe('2024-01-15T08:00:00.000Z');
+    expect(schedule).toMatchObject({ videoDuration: '5', autoPublishToInstagram: false, paused: false, history: [] });
+  });
+
+  it('rejects invalid names, expressions and timezones', () => {
+    expect(() => service.createSchedule({ name: 'no spaces', cronExpression: '0 9 * * *' })).toThrow('Schedule name is required');
+    expect(() => service.createSchedule({ name: 'bad-cron', cronExpression: 'every day' })).toThrow('Invalid cron expression');
+    expect(() => service.createSchedule({ name: 'bad-tz', cronExpression: '0 9 * * *', timezone: 'Mars/Base' })).toThrow('Invalid IANA timezone');
+
+    service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *' });
+    expect(() => service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *' })).toThrow('already exists');
+  });
+
+  it('only copies editable settings from updates', () => {
+    service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *' });
+
+    const updated = service.updateSchedule('morning', {
+      cronExpression: '0 18 * * *',
+      imageTag: undefined,
+      ...({ paused: true, history: [{ firedAt: 'never' }], name: 'renamed' } as object),
+    });
+
+    expect(updated).toMatchObject({ name: 'morning', cronExpression: '0 18 * * *', paused: false, history: [] });
+    expect(updated.nextRunAt).toBe('2024-01-15T18:00:00.000Z');
+  });
+
+  it('fires due schedules once, records the job and moves to the next run', () => {
+    service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *', imageTag: 'beach' });
+    service.createSchedule({ name: 'paused', cronExpression: '0 9 * * *' });
+    service.setPaused('paused', true);
+    service.createSchedule({ name: 'later', cronExpression: '0 20 * * *' });
+
+    // Down over several occurrences: the missed run still fires only once
+    jest.setSystemTime(new Date('2024-01-17T10:00:00.000Z'));
+    service.onModuleInit();
+
+    expect(cronService.triggerWorkflowNow).toHaveBeenCalledTimes(2);
+    expect(cronService.triggerWorkflowNow).toHaveBeenCalledWith(expect.objectContaining({ imageTag: 'beach' }), 'schedule');
+    const morning = service.getSchedule('morning');
+    expect(morning.history).toEqual([{ firedAt: '2024-01-17T10:00:00.000Z', jobId: 'run-1' }]);
+    expect(morning.nextRunAt).toBe('2024-01-18T09:00:00.000Z');
+    expect(service.getSchedule('paused').history).toEqual([]);
+  });
+
+  it('records the error when a schedule cannot queue its workflow', () => {
+    cronService.triggerWorkflowNow.mockImplementation(() => {
+      throw new Error('Image pool is empty');
+    });
+    service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *' });
+
+    jest.setSystemTime(new Date('2024-01-15T09:00:01.000Z'));
+    service.onModuleInit();
+
+    expect(service.getSchedule('morning').history[0]).toMatchObject({ error: 'Image pool is empty' });
+  });
+
+  it('never fires when the scheduler is disabled', async () => {
+    service.createSchedule({ name: 'morning', cronExpression: '0 9 * * *' });
+    const disabled = await createService(false);
+
+    jest.setSystemTime(new Date('2024-01-16T00:00:00.000Z'));
+    disabled.onModuleInit();
+    jest.advanceTimersByTime(60_000);
+
+    expect(cronService.triggerWorkflowNow).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpressionParser } from 'cron-parser';
+import { JsonFileStore } from '../util/json-store';
+import { pickDefinedFields } from '../util/pick-fields';
+import { CronService } from './cron.service';
+import { ImageSelectionStrategy } from '../image/image-pool.service';
+import { ImageService } from '../image/image.service';
+import { ImageFormatName } from '../image/image-formats';
+import { CropOptions } from '../image/image-crop';
+import { FitOptions } from '../image/image-fit';
+import { BrandProfileService } from '../brand/brand-profile.service';
+import { VideoPromptOptions, VideoPromptService } from '../video/video-prompt.service';
+import { CaptionOptions } from '../util/caption-helper';
+import { ApprovalPolicyService } from '../email/approval-policy.service';
+import { ChatApprovalService } from '../chat/chat-approval.service';
+import { ApprovalChannelName } from '../chat/chat-channels';
+
+const SCHEDULER_TICK_MS = 15000;
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface ScheduleHistoryEntry {
+  firedAt: string;
+  jobId?: string;
+  error?: string;
+}
+
+export interface WorkflowSchedule {
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  imageUrl?: string; // Falls back to picking from the image pool when not set
+  imageTag?: string;
+  imageStrategy?: ImageSelectionStrategy;
+  videoDuration?: "5" | "10";
+  autoPublishToInstagram?: boolean;
+  recipientEmail?: string;
+  brandProfile?: string;
+  videoPrompt?: VideoPromptOptions;
+  captionVariants?: number;
+  captionTones?: CaptionOptions['tone'][];
+  approvalPolicy?: string;
+  approvalChannels?: ApprovalChannelName[];
+  imageFormats?: ImageFormatName[];
+  imageCrop?: CropOptions;
+  imageFit?: FitOptions;
+  paused: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  history: ScheduleHistoryEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduleInput = Partial<Omit<WorkflowSchedule, 'paused' | 'nextRunAt' | 'lastRunAt' | 'history' | 'createdAt' | 'updatedAt'>>;
+
+// What PUT /workflow-trigger/schedules/:name may change; the name is the key and pausing has its own endpoints
+const EDITABLE_FIELDS: Array<keyof ScheduleInput> = [
+  'cronExpression', 'timezone', 'imageUrl', 'imageTag', 'imageStrategy', 'videoDuration', 'autoPublishToInstagram',
+  'recipientEmail', 'brandProfile', 'videoPrompt', 'captionVariants', 'captionTones', 'approvalPolicy', 'approvalChannels',
+  'imageFormats', 'imageCrop', 'imageFit',
+];
+
+/**
+ * Optional in-process scheduler (SCHEDULER_ENABLED=true). Schedules are always stored and
+ * manageable; they only fire when the scheduler is enabled, otherwise an external caller
+ * is expected to hit /workflow-trigger/trigger.
+ */
+@Injectable()
+export class ScheduleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduleService.name);
+  private readonly store = new JsonFileStore<WorkflowSchedule>('schedules');
+  private readonly enabled: boolean;
+  private tickTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly cronService: CronService,
+    private readonly brandProfileService: BrandProfileService,
+    private readonly videoPromptService: VideoPromptService,
+    private readonly approvalPolicyService: ApprovalPolicyService,
+    private readonly chatApprovalService: ChatApprovalService,
+    private readonly imageService: ImageService,
+  ) {
+    this.enabled = this.configService.get<string>('SCHEDULER_ENABLED') === 'true';
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('⏸️ In-process scheduler disabled (set SCHEDULER_ENABLED=true to enable)');
+      return;
+    }
+
+    const schedules = this.store.getAll();
+    this.logger.log(`⏰ In-process scheduler enabled with ${schedules.length} schedule(s)`);
+    this.tickTimer = setInterval(() => this.tick(), SCHEDULER_TICK_MS);
+    this.tick();
+  }
+
+  onModuleDestroy() {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  listSchedules(): WorkflowSchedule[] {
+    return this.store.getAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getSchedule(name: string): WorkflowSchedule {
+    const schedule = this.store.get(name);
+    if (!schedule) {
+      throw new NotFoundException(`Schedule "${name}" not found`);
+    }
+    return schedule;
+  }
+
+  createSchedule(input: ScheduleInput): WorkflowSchedule {
+    if (!input.name || !/^[a-zA-Z0-9_-]+$/.test(input.name)) {
+      throw new BadRequestException('Schedule name is required and may only contain letters, numbers, "-" and "_"');
+    }
+    if (this.store.get(input.name)) {
+      throw new ConflictException(`Schedule "${input.name}" already exists`);
+    }
+    if (!input.cronExpression) {
+      throw new BadRequestException('cronExpression is required');
+    }
+
+    const now = new Date().toISOString();
+    const schedule: WorkflowSchedule = {
+      name: input.name,
+      cronExpression: input.cronExpression,
+      timezone: input.timezone || 'UTC',
+      imageUrl: input.imageUrl,
+      imageTag: input.imageTag,
+      imageStrategy: input.imageStrategy,
+      videoDuration: input.videoDuration || "5",
+      autoPublishToInstagram: input.autoPublishToInstagram ?? false,
+      recipientEmail: input.recipientEmail,
+      brandProfile: input.brandProfile,
+      videoPrompt: input.videoPrompt,
+      captionVariants: input.captionVariants,
+      captionTones: input.captionTones,
+      approvalPolicy: input.approvalPolicy,
+      approvalChannels: input.approvalChannels,
+      imageFormats: input.imageFormats,
+      imageCrop: input.imageCrop,
+      imageFit: input.imageFit,
+      paused: false,
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    schedule.nextRunAt = this.computeNextRun(schedule);
+    this.validateReferences(schedule);
+
+    this.store.set(schedule.name, schedule);
+    this.logger.log(`📅 Schedule "${schedule.name}" created (${schedule.cronExpression} ${schedule.timezone}), next run ${schedule.nextRunAt}`);
+    return schedule;
+  }
+
+  updateSchedule(name: string, input: ScheduleInput): WorkflowSchedule {
+    const schedule = this.getSchedule(name);
+    const updated: WorkflowSchedule = {
+      ...schedule,
+      ...pickDefinedFields(input, EDITABLE_FIELDS),
+      updatedAt: new Date().toISOString(),
+    };
+    updated.nextRunAt = updated.paused ? undefined : this.computeNextRun(updated);
+    this.validateReferences(updated);
+
+    this.store.set(name, updated);
+    this.logger.log(`📅 Schedule "${name}" updated, next run ${updated.nextRunAt || 'n/a'}`);
+    return updated;
+  }
+
+  deleteSchedule(name: string): void {
+    if (!this.store.delete(name)) {
+      throw new NotFoundException(`Schedule "${name}" not found`);
+    }
+    this.logger.log(`🗑️ Schedule "${name}" deleted`);
+  }
+
+  setPaused(name: string, paused: boolean): WorkflowSchedule {
+    const schedule = this.getSchedule(name);
+    schedule.paused = paused;
+    schedule.nextRunAt = paused ? undefined : this.computeNextRun(schedule);
+    schedule.updatedAt = new Date().toISOString();
+
+    this.store.set(name, schedule);
+    this.logger.log(`${paused ? '⏸️' : '▶️'} Schedule "${name}" ${paused ? 'paused' : 'resumed'}`);
+    return schedule;
+  }
+
+  /**
+   * Rejects schedules that point at a brand profile, prompt template, approval policy, channel, image format, crop strategy or fit mode that doesn't exist
+   */
+  private validateReferences(schedule: WorkflowSchedule): void {
+    if (schedule.brandProfile) {
+      this.brandProfileService.getProfile(schedule.brandProfile);
+    }
+    if (schedule.approvalPolicy) {
+      this.approvalPolicyService.getPolicy(schedule.approvalPolicy);
+    }
+    this.chatApprovalService.validateChannels(schedule.approvalChannels);
+    this.imageService.validateFormats(schedule.imageFormats);
+    this.imageService.validateCropOptions(schedule.imageCrop);
+    this.imageService.validateFitOptions(schedule.imageFit);
+    this.videoPromptService.validateOptions(schedule.videoPrompt);
+  }
+
+  /**
+   * Validates the expression/timezone pair and returns the next fire time after `from`
+   */
+  private computeNextRun(schedule: Pick<WorkflowSchedule, 'cronExpression' | 'timezone'>, from = new Date()): string {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      throw new BadRequestException(`Invalid IANA timezone: ${schedule.timezone}`);
+    }
+
+    try {
+      return CronExpressionParser
+        .parse(schedule.cronExpression, { tz: schedule.timezone, currentDate: from })
+        .next()
+        .toDate()
+        .toISOString();
+    } catch (error) {
+      throw new BadRequestException(`Invalid cron expression "${schedule.cronExpression}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Fire every unpaused schedule whose next run is due. A run missed while the server
+   * was down fires once on the next tick rather than once per missed occurrence.
+   */
+  private tick(): void {
+    const now = Date.now();
+    for (const schedule of this.store.getAll()) {
+      if (schedule.paused || !schedule.nextRunAt || new Date(schedule.nextRunAt).getTime() > now) {
+        continue;
+      }
+      this.fire(schedule);
+    }
+  }
+
+  private fire(schedule: WorkflowSchedule): void {
+    const entry: ScheduleHistoryEntry = { firedAt: new Date().toISOString() };
+    this.logger.log(`⏰ Schedule "${schedule.name}" is due - queuing workflow`);
+
+    try {
+      const run = this.cronService.triggerWorkflowNow({
+        imageUrl: schedule.imageUrl,
+        imageTag: schedule.imageTag,
+        imageStrategy: schedule.imageStrategy,
+        recipientEmail: schedule.recipientEmail,
+        videoDuration: schedule.videoDuration,
+        autoPublishToInstagram: schedule.autoPublishToInstagram,
+        brandProfile: schedule.brandProfile,
+        videoPrompt: schedule.videoPrompt,
+        captionVariants: schedule.captionVariants,
+        captionTones: schedule.captionTones,
+        approvalPolicy: schedule.approvalPolicy,
+        approvalChannels: schedule.approvalChannels,
+        imageFormats: schedule.imageFormats,
+        imageCrop: schedule.imageCrop,
+        imageFit: schedule.imageFit,
+      }, 'schedule');
+      entry.jobId = run.runId;
+    } catch (error) {
+      entry.error = error.message;
+      this.logger.error(`❌ Schedule "${schedule.name}" failed to queue workflow: ${error.message}`);
+    }
+
+    schedule.lastRunAt = entry.firedAt;
+    schedule.history = [entry, ...schedule.history].slice(0, MAX_HISTORY_ENTRIES);
+    try {
+      schedule.nextRunAt = this.computeNextRun(schedule);
+    } catch (error) {
+      // Stored expression no longer parses (e.g. edited on disk) - stop firing instead of looping
+      schedule.nextRunAt = undefined;
+      this.logger.error(`❌ Schedule "${schedule.name}" disabled: ${error.message}`);
+    }
+    this.store.set(schedule.name, schedule);
+  }
+}
@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowQueueService } from './workflow-queue.service';
+import { WorkflowRunService } from './workflow-run.service';
+import { WorkflowResult, WorkflowService } from './workflow.service';
+
+describe('WorkflowQueueService', () => {
+  let dataDir: string;
+  let runService: WorkflowRunService;
+  let finishers: Map<string, () => void>;
+  let workflowService: { executeCompleteWorkflow: jest.Mock };
+
+  const done = { success: true };
+  const succeeded: WorkflowResult = {
+    success: true,
+    steps: { imageConversion: done, promptGeneration: done, captionGeneration: done, videoGeneration: done, emailSending: done },
+    executionTime: 0,
+  };
+
+  const createQueue = (concurrency?: string) => new WorkflowQueueService(
+    new ConfigService(concurrency === undefined ? {} : { WORKFLOW_CONCURRENCY: concurrency }),
+    workflowService as unknown as WorkflowService,
+    runService,
+  );
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+  const finish = async (runId: string) => {
+    finishers.get(runId)();
+    await flush();
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-queue-'));
+    process.env.DATA_DIR = dataDir;
+    runService = new WorkflowRunService();
+    finishers = new Map();
+    // Each job keeps running until the test finishes it
+    workflowService = {
+      executeCompleteWorkflow: jest.fn((config, trigger, runId: string) => {
+        runService.startRun(config, trigger, runId);
+        return new Promise<void>(resolve => finishers.set(runId, () => {
+          runService.finishRun(runId, succeeded);
+          resolve();
+        }));
+      }),
+    };
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('runs at most WORKFLOW_CONCURRENCY jobs at a time, in order', async () => {
+    const queue = createQueue('2');
+    const [first, second, third] = ['a', 'b', 'c'].map(name => queue.enqueue({ imageUrl: `https://example.com/${name}.jpg` }));
+    await flush();
+
+    expect(workflowService.executeCompleteWorkflow).toHaveBeenCalledTimes(2);
+    expect(runService.getRun(first.runId).status).toBe('running');
+    expect(runService.getRun(second.runId).status).toBe('running');
+    expect(runService.getRun(third.runId).status).toBe('queued');
+    expect(queue.getQueuePosition(third.runId)).toBe(1);
+    expect(queue.getQueuePosition(first.runId)).toBeNull();
+
+    await finish(first.runId);
+
+    expect(runService.getRun(first.runId).status).toBe('succeeded');
+    expect(workflowService.executeCompleteWorkflow).toHaveBeenLastCalledWith(third.config, 'api', third.runId);
+    expect(queue.getQueuePosition(third.runId)).toBeNull();
+  });
+
+  it.each(['0', '-3', 'abc'])('still runs jobs one at a time when WORKFLOW_CONCURRENCY is %s', async concurrency => {
+    const queue = createQueue(concurrency);
+    const [first, second] = ['a', 'b'].map(name => queue.enqueue({ imageUrl: `https://example.com/${name}.jpg` }));
+    await flush();
+
+    expect(workflowService.executeCompleteWorkflow).toHaveBeenCalledTimes(1);
+
+    await finish(first.runId);
+
+    expect(workflowService.executeCompleteWorkflow).toHaveBeenCalledTimes(2);
+    expect(runService.getRun(second.runId).status).toBe('running');
+  });
+
+  it('fails a job that crashes and keeps going', async () => {
+    const queue = createQueue();
+    workflowService.executeCompleteWorkflow.mockRejectedValueOnce(new Error('boom'));
+    const first = queue.enqueue({ imageUrl: 'https://example.com/a.jpg' });
+    const second = queue.enqueue({ imageUrl: 'https://example.com/b.jpg' });
+    await flush();
+    await flush();
+
+    expect(runService.getRun(first.runId)).toMatchObject({ status: 'failed', error: 'boom' });
+    expect(runService.getRun(second.runId).status).toBe('running');
+  });
+
+  it('re-queues queued jobs and fails interrupted ones on startup', async () => {
+    const interrupted = runService.startRun({ imageUrl: 'https://example.com/a.jpg' }, 'api');
+    const waiting = runService.queueRun({ imageUrl: 'https://example.com/b.jpg' }, 'cron');
+
+    createQueue().onModuleInit();
+    await flush();
+
+    expect(runService.getRun(interrupted.runId)).toMatchObject({ status: 'failed', error: 'Interrupted by server restart' });
+    expect(workflowService.executeCompleteWorkflow).toHaveBeenCalledWith(waiting.config, 'cron', waiting.runId);
+  });
+});
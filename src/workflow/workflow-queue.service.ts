@@ -0,0 +1,94 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WorkflowService, WorkflowConfig } from './workflow.service';
+import { WorkflowRunService, WorkflowRun, WorkflowTrigger } from './workflow-run.service';
+
+/**
+ * In-process background queue for workflow runs.
+ * Each queued job is a workflow run record, so job state is read back through WorkflowRunService.
+ */
+@Injectable()
+export class WorkflowQueueService implements OnModuleInit {
+  private readonly logger = new Logger(WorkflowQueueService.name);
+  private readonly pending: string[] = [];
+  private readonly concurrency: number;
+  private activeJobs = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly workflowService: WorkflowService,
+    private readonly workflowRunService: WorkflowRunService,
+  ) {
+    // Anything below 1 (or not a number) would leave queued jobs waiting forever
+    const concurrency = parseInt(this.configService.get<string>('WORKFLOW_CONCURRENCY') || '1', 10);
+    this.concurrency = Number.isNaN(concurrency) ? 1 : Math.max(1, concurrency);
+  }
+
+  /**
+   * Pick up jobs left behind by a previous process: queued jobs are re-queued,
+   * jobs that were mid-run cannot be continued and are marked as failed
+   */
+  onModuleInit() {
+    const leftovers = this.workflowRunService
+      .listRuns()
+      .filter(run => run.status === 'queued' || run.status === 'running')
+      .reverse();
+
+    for (const run of leftovers) {
+      if (run.status === 'queued') {
+        this.pending.push(run.runId);
+      } else {
+        this.workflowRunService.failRun(run.runId, 'Interrupted by server restart');
+      }
+    }
+
+    if (leftovers.length > 0) {
+      this.logger.log(`♻️ Recovered ${leftovers.length} unfinished workflow job(s) from previous process`);
+      this.processNext();
+    }
+  }
+
+  /**
+   * Queue a workflow run and return immediately with its job (run) record
+   */
+  enqueue(
+    config: WorkflowConfig,
+    trigger: WorkflowTrigger = 'api',
+    resumedFrom?: WorkflowRun['resumedFrom']
+  ): WorkflowRun {
+    const run = this.workflowRunService.queueRun(config, trigger, resumedFrom);
+    this.pending.push(run.runId);
+    this.logger.log(`📥 Workflow job ${run.runId} queued (${this.pending.length} waiting, ${this.activeJobs} running)`);
+    setImmediate(() => this.processNext());
+    return run;
+  }
+
+  getQueuePosition(runId: string): number | null {
+    const index = this.pending.indexOf(runId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private processNext(): void {
+    while (this.activeJobs < this.concurrency && this.pending.length > 0) {
+      const runId = this.pending.shift();
+      const run = this.workflowRunService.getRun(runId);
+      if (!run) {
+        continue;
+      }
+
+      this.activeJobs++;
+      this.logger.log(`⚙️ Starting workflow job ${runId}`);
+      this.workflowService
+        .executeCompleteWorkflow(run.config, run.trigger, runId)
+        .catch(error => {
+          // Errors inside the steps are recorded by the workflow itself; anything that escapes would leave the job running
+          this.logger.error(`❌ Workflow job ${runId} crashed:`, error.message);
+          this.workflowRunService.failRun(runId, error.message);
+        })
+        .finally(() => {
+          this.activeJobs--;
+          this.processNext();
+        });
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowRun, WorkflowRunService } from './workflow-run.service';
+
+describe('WorkflowRunService.listRuns', () => {
+  let dataDir: string;
+  let service: WorkflowRunService;
+
+  const writeRun = (run: Partial<WorkflowRun>) => fs.writeFileSync(
+    path.join(dataDir, 'workflow-runs', `${run.runId}.json`),
+    JSON.stringify({ trigger: 'api', config: { imageUrl: 'https://example.com/a.jpg' }, ...run }),
+  );
+  const ids = (runs: WorkflowRun[]) => runs.map(run => run.runId);
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-runs-'));
+    process.env.DATA_DIR = dataDir;
+    service = new WorkflowRunService();
+
+    writeRun({ runId: 'new', status: 'queued', createdAt: '2024-03-01T00:00:00.000Z' });
+    writeRun({ runId: 'middle', status: 'succeeded', createdAt: '2024-02-01T00:00:00.000Z', startedAt: '2024-02-01T00:01:00.000Z' });
+    // Recorded before runs had createdAt
+    writeRun({ runId: 'legacy', status: 'succeeded', startedAt: '2024-01-01T00:00:00.000Z' });
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists runs newest first, using startedAt for runs without createdAt', () => {
+    expect(ids(service.listRuns())).toEqual(['new', 'middle', 'legacy']);
+  });
+
+  it('filters by status, date range and limit', () => {
+    expect(ids(service.listRuns({ status: 'succeeded' }))).toEqual(['middle', 'legacy']);
+    expect(ids(service.listRuns({ from: new Date('2023-12-31'), to: new Date('2024-01-15') }))).toEqual(['legacy']);
+    expect(ids(service.listRuns({ limit: 2 }))).toEqual(['new', 'middle']);
+  });
+});
@@ -0,0 +1,171 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from '../util/json-store';
+import type { WorkflowConfig, WorkflowResult } from './workflow.service';
+
+export type WorkflowRunStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type WorkflowTrigger = 'api' | 'cron' | 'schedule';
+
+export interface WorkflowRun {
+  runId: string;
+  status: WorkflowRunStatus;
+  trigger: WorkflowTrigger;
+  config: WorkflowConfig;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  currentStep?: { number: number; name: string };
+  resumedFrom?: { runId: string; fromStep: number };
+  error?: string;
+  result?: WorkflowResult;
+  approval?: WorkflowRunApproval;
+}
+
+export interface WorkflowRunApproval {
+  contentId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  chosenVariant?: number; // Index into result.steps.captionGeneration.data.variants
+  edited?: boolean; // Approver changed the caption/hashtags before approving
+  approvers?: Array<{ email: string; decision?: 'approve' | 'reject'; decidedAt?: string }>;
+  escalatedTo?: string; // Backup approver the request went to after the deadline
+  regeneratedRunId?: string; // Run queued to replace content that expired
+  decidedAt?: string;
+}
+
+export interface WorkflowRunFilter {
+  status?: WorkflowRunStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Runs recorded before queueing existed only have `startedAt`
+ */
+function createdAt(run: WorkflowRun): string {
+  return run.createdAt || run.startedAt || '';
+}
+
+@Injectable()
+export class WorkflowRunService {
+  private readonly logger = new Logger(WorkflowRunService.name);
+  private readonly store = new JsonFileStore<WorkflowRun>('workflow-runs');
+
+  /**
+   * Record a run that is waiting in the background queue
+   */
+  queueRun(
+    config: WorkflowConfig,
+    trigger: WorkflowTrigger,
+    resumedFrom?: WorkflowRun['resumedFrom']
+  ): WorkflowRun {
+    const run: WorkflowRun = {
+      runId: randomUUID(),
+      status: 'queued',
+      trigger,
+      config,
+      createdAt: new Date().toISOString(),
+      resumedFrom,
+    };
+    this.store.set(run.runId, run);
+    this.logger.log(`🗂️ Workflow run ${run.runId} queued (trigger: ${trigger})`);
+    return run;
+  }
+
+  /**
+   * Record the start of a workflow run - either a previously queued run or a new one
+   */
+  startRun(config: WorkflowConfig, trigger: WorkflowTrigger, runId?: string): WorkflowRun {
+    const now = new Date().toISOString();
+    const existing = runId ? this.store.get(runId) : null;
+    const run: WorkflowRun = existing || {
+      runId: runId || randomUUID(),
+      status: 'running',
+      trigger,
+      config,
+      createdAt: now,
+    };
+
+    run.status = 'running';
+    run.startedAt = now;
+    this.store.set(run.runId, run);
+    this.logger.log(`🗂️ Workflow run ${run.runId} started (trigger: ${run.trigger})`);
+    return run;
+  }
+
+  /**
+   * Track which step a running workflow is currently executing
+   */
+  markStep(runId: string, number: number, name: string): void {
+    const run = this.store.get(runId);
+    if (!run) {
+      return;
+    }
+    run.currentStep = { number, name };
+    this.store.set(runId, run);
+  }
+
+  /**
+   * Persist the step results of a run once it has finished
+   */
+  finishRun(runId: string, result: WorkflowResult, error?: string): WorkflowRun | null {
+    const run = this.store.get(runId);
+    if (!run) {
+      this.logger.warn(`⚠️ Workflow run ${runId} not found when finishing`);
+      return null;
+    }
+
+    run.status = result.success ? 'succeeded' : 'failed';
+    run.finishedAt = new Date().toISOString();
+    run.result = result;
+    run.error = error;
+    this.store.set(runId, run);
+    this.logger.log(`🗂️ Workflow run ${runId} finished with status: ${run.status}`);
+    return run;
+  }
+
+  /**
+   * Mark a run as failed without step results (e.g. it never got to finish)
+   */
+  failRun(runId: string, error: string): void {
+    const run = this.store.get(runId);
+    if (!run) {
+      return;
+    }
+    run.status = 'failed';
+    run.finishedAt = new Date().toISOString();
+    run.error = error;
+    this.store.set(runId, run);
+    this.logger.warn(`⚠️ Workflow run ${runId} marked as failed: ${error}`);
+  }
+
+  /**
+   * Attach the approver's decision to the run that produced the content
+   */
+  recordApproval(runId: string, approval: WorkflowRunApproval): void {
+    const run = this.store.get(runId);
+    if (!run) {
+      return;
+    }
+    run.approval = approval;
+    this.store.set(runId, run);
+  }
+
+  getRun(runId: string): WorkflowRun | null {
+    return this.store.get(runId);
+  }
+
+  /**
+   * List runs, newest first, optionally filtered by status and creation date range
+   */
+  listRuns(filter: WorkflowRunFilter = {}): WorkflowRun[] {
+    const runs = this.store
+      .getAll()
+      .filter(run => !filter.status || run.status === filter.status)
+      .filter(run => !filter.from || new Date(createdAt(run)) >= filter.from)
+      .filter(run => !filter.to || new Date(createdAt(run)) <= filter.to)
+      .sort((a, b) => createdAt(b).localeCompare(createdAt(a)));
+
+    return filter.limit ? runs.slice(0, filter.limit) : runs;
+  }
+}
@@ -1,37 +1,80 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, Get, Query } from '@nestjs/common';
-import { WorkflowService, WorkflowResult } from './workflow.service';
+import { Controller, Post, Body, HttpCode, HttpStatus, Get, Query, Param, BadRequestException, NotFoundException } from '@nestjs/common';
+import { WorkflowService, WorkflowResult, WorkflowStepName } from './workflow.service';
+import { WorkflowRunService, WorkflowRun, WorkflowRunStatus } from './workflow-run.service';
+import { WorkflowQueueService } from './workflow-queue.service';
+import { VideoProviderName } from '../video/providers/video-provider';
+import { VideoPromptOptions } from '../video/video-prompt.service';
+import { CaptionOptions } from '../util/caption-helper';
+import { ApprovalChannelName } from '../chat/chat-channels';
+import { ImageFormatName } from '../image/image-formats';
+import { CropOptions } from '../image/image-crop';
+import { FitOptions } from '../image/image-fit';
+
+const RUN_STATUSES: WorkflowRunStatus[] = ['queued', 'running', 'succeeded', 'failed'];
 
 export class ExecuteWorkflowDto {
   imageUrl: string;
   recipientEmail?: string;
   videoDuration?: "5" | "10";
   autoPublishToInstagram?: boolean;
+  videoProvider?: VideoProviderName;
+  videoFallbackProviders?: VideoProviderName[];
+  brandProfile?: string;
+  videoPrompt?: VideoPromptOptions;
+  captionVariants?: number;
+  captionTones?: CaptionOptions['tone'][];
+  approvalPolicy?: string;
+  approvalChannels?: ApprovalChannelName[];
+  imageFormats?: ImageFormatName[];
+  imageCrop?: CropOptions;
+  imageFit?: FitOptions;
 }
 
-export class EmailApprovalDto {
-  videoUrl: string;
-  caption: string;
-  hashtags?: string[];
+export class ResumeWorkflowDto {
+  fromStep?: number | WorkflowStepName;
 }
 
 @Controller('workflow')
 export class WorkflowController {
-  constructor(private readonly workflowService: WorkflowService) {}
+  constructor(
+    private readonly workflowService: WorkflowService,
+    private readonly workflowRunService: WorkflowRunService,
+    private readonly workflowQueueService: WorkflowQueueService,
+  ) {}
 
   @Post('execute')
   @HttpCode(HttpStatus.OK)
   async executeWorkflow(@Body() workflowDto: ExecuteWorkflowDto): Promise<WorkflowResult> {
+    this.workflowService.validateConfig(workflowDto);
     return this.workflowService.executeCompleteWorkflow(workflowDto);
   }
 
-  @Post('approve-with-instagram')
-  @HttpCode(HttpStatus.OK)
-  async handleEmailApproval(@Body() approvalDto: EmailApprovalDto) {
-    return this.workflowService.handleEmailApprovalWithInstagram(
-      approvalDto.videoUrl,
-      approvalDto.caption,
-      approvalDto.hashtags || []
-    );
+  /**
+   * Queue a workflow in the background and return a job ID immediately
+   * POST /workflow/execute-async
+   */
+  @Post('execute-async')
+  @HttpCode(HttpStatus.ACCEPTED)
+  executeWorkflowAsync(@Body() workflowDto: ExecuteWorkflowDto) {
+    this.workflowService.validateConfig(workflowDto);
+    const run = this.workflowQueueService.enqueue(workflowDto);
+    return {
+      ...this.toJobStatus(run),
+      statusUrl: `/workflow/jobs/${run.runId}`
+    };
+  }
+
+  /**
+   * Poll the state of a background workflow job
+   * GET /workflow/jobs/:id
+   */
+  @Get('jobs/:id')
+  getJob(@Param('id') jobId: string) {
+    const run = this.workflowRunService.getRun(jobId);
+    if (!run) {
+      throw new NotFoundException(`Workflow job ${jobId} not found`);
+    }
+    return this.toJobStatus(run);
   }
 
   @Get('instagram-containers')
@@ -50,4 +93,109 @@ export class WorkflowController {
       };
     }
   }
+
+  /**
+   * List stored workflow runs. Step outputs (which include the converted images) are left out;
+   * GET /workflow/runs/:id has the full run
+   * GET /workflow/runs?status=failed&from=2025-01-01&to=2025-01-31&limit=20
+   */
+  @Get('runs')
+  listRuns(
+    @Query('status') status?: WorkflowRunStatus,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !RUN_STATUSES.includes(status)) {
+      throw new BadRequestException(`Invalid status. Expected one of: ${RUN_STATUSES.join(', ')}`);
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      throw new BadRequestException('Invalid date filter. Use ISO 8601 dates for from/to');
+    }
+
+    const runs = this.workflowRunService.listRuns({
+      status,
+      from: fromDate,
+      to: toDate,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    return {
+      runs: runs.map(run => this.toRunSummary(run)),
+      count: runs.length
+    };
+  }
+
+  /**
+   * Get a single workflow run with its config and step results
+   * GET /workflow/runs/:id
+   */
+  @Get('runs/:id')
+  getRun(@Param('id') runId: string) {
+    const run = this.workflowRunService.getRun(runId);
+    if (!run) {
+      throw new NotFoundException(`Workflow run ${runId} not found`);
+    }
+    return run;
+  }
+
+  /**
+   * Resume a finished run from its failed step (or an explicit fromStep), reusing earlier outputs.
+   * The resumed execution is queued as a new run that links back to the original.
+   * POST /workflow/runs/:id/resume
+   */
+  @Post('runs/:id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  resumeRun(@Param('id') runId: string, @Body() resumeDto: ResumeWorkflowDto = {}) {
+    const sourceRun = this.workflowRunService.getRun(runId);
+    if (!sourceRun) {
+      throw new NotFoundException(`Workflow run ${runId} not found`);
+    }
+
+    const fromStep = this.workflowService.resolveResumeStep(sourceRun, resumeDto?.fromStep);
+    const run = this.workflowQueueService.enqueue(sourceRun.config, sourceRun.trigger, {
+      runId: sourceRun.runId,
+      fromStep,
+    });
+    return {
+      ...this.toJobStatus(run),
+      resumedFrom: run.resumedFrom,
+      statusUrl: `/workflow/jobs/${run.runId}`
+    };
+  }
+
+  private toRunSummary(run: WorkflowRun) {
+    const { result, ...summary } = run;
+    if (!result) {
+      return summary;
+    }
+
+    return {
+      ...summary,
+      result: {
+        success: result.success,
+        executionTime: result.executionTime,
+        steps: Object.fromEntries(Object.entries(result.steps)
+          .filter(([_, step]) => step)
+          .map(([name, step]) => [name, { success: step.success, error: step.error, reusedFrom: step.reusedFrom }])),
+        finalOutput: result.finalOutput && { ...result.finalOutput, convertedImage: undefined },
+      },
+    };
+  }
+
+  private toJobStatus(run: WorkflowRun) {
+    return {
+      jobId: run.runId,
+      status: run.status,
+      step: run.currentStep,
+      queuePosition: this.workflowQueueService.getQueuePosition(run.runId),
+      createdAt: run.createdAt,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      error: run.error,
+      finalOutput: run.result?.finalOutput
+    };
+  }
 }
\ No newline at end of file
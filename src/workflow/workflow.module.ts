@@ -1,17 +1,22 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { WorkflowController } from './workflow.controller';
 import { WorkflowService } from './workflow.service';
+import { WorkflowRunService } from './workflow-run.service';
+import { WorkflowQueueService } from './workflow-queue.service';
 import { CronController } from './cron.controller';
 import { CronService } from './cron.service';
+import { ScheduleService } from './schedule.service';
 import { ImageModule } from '../image/image.module';
 import { VideoModule } from '../video/video.module';
 import { EmailApprovalModule } from '../email/email.module';
 import { InstagramModule } from '../instagram/instagram.module';
+import { BrandModule } from '../brand/brand.module';
+import { ChatApprovalModule } from '../chat/chat.module';
 
 @Module({
-  imports: [ImageModule, VideoModule, forwardRef(() => EmailApprovalModule), InstagramModule],
+  imports: [ImageModule, VideoModule, forwardRef(() => EmailApprovalModule), InstagramModule, BrandModule, forwardRef(() => ChatApprovalModule)],
   controllers: [WorkflowController, CronController],
-  providers: [WorkflowService, CronService],
-  exports: [WorkflowService, CronService],
+  providers: [WorkflowService, WorkflowRunService, WorkflowQueueService, CronService, ScheduleService],
+  exports: [WorkflowService, WorkflowRunService, WorkflowQueueService, CronService, ScheduleService],
 })
 export class WorkflowModule {}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { BadRequestException } from '@nestjs/common';
+import { WorkflowRun } from './workflow-run.service';
+import { WorkflowResult, WorkflowService, WORKFLOW_STEPS } from './workflow.service';
+
+describe('WorkflowService.resolveResumeStep', () => {
+  // Resolving the step only looks at the stored run, so no collaborators are needed
+  const service: WorkflowService = Object.create(WorkflowService.prototype);
+
+  const failedRun = (succeededSteps: number): WorkflowRun => {
+    const steps = Object.fromEntries(
+      WORKFLOW_STEPS.map((name, index) => [name, { success: index < succeededSteps }]),
+    ) as unknown as WorkflowResult['steps'];
+    return {
+      runId: 'run-1',
+      status: 'failed',
+      trigger: 'api',
+      config: { imageUrl: 'https://example.com/a.jpg' },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      result: { success: false, steps, executionTime: 0 },
+    };
+  };
+
+  it('restarts at the first failed step by default', () => {
+    expect(service.resolveResumeStep(failedRun(3))).toBe(4);
+  });
+
+  it('restarts from the beginning when the run stored no step results', () => {
+    expect(service.resolveResumeStep({ ...failedRun(0), result: undefined })).toBe(1);
+  });
+
+  it('accepts an earlier step by number or name', () => {
+    expect(service.resolveResumeStep(failedRun(3), 2)).toBe(2);
+    expect(service.resolveResumeStep(failedRun(3), '2')).toBe(2);
+    expect(service.resolveResumeStep(failedRun(3), 'promptGeneration')).toBe(2);
+  });
+
+  it('never skips past the step that failed', () => {
+    expect(service.resolveResumeStep(failedRun(3), 'emailSending')).toBe(4);
+  });
+
+  it('rejects unknown steps', () => {
+    expect(() => service.resolveResumeStep(failedRun(3), 0)).toThrow(BadRequestException);
+    expect(() => service.resolveResumeStep(failedRun(3), 7)).toThrow('Invalid fromStep');
+    expect(() => service.resolveResumeStep(failedRun(3), 'publish')).toThrow('Invalid fromStep');
+  });
+
+  it('refuses runs that are unfinished or have nothing to resume', () => {
+    expect(() => service.resolveResumeStep({ ...failedRun(3), status: 'running' })).toThrow('is still running');
+    expect(() => service.resolveResumeStep({ ...failedRun(WORKFLOW_STEPS.length), status: 'succeeded' }))
+      .toThrow('has no failed step to resume from');
+  });
+
+  it('lets a fully successful run be redone from an explicit step', () => {
+    expect(service.resolveResumeStep({ ...failedRun(WORKFLOW_STEPS.length), status: 'succeeded' }, 'videoGeneration')).toBe(4);
+  });
+});
@@ -1,29 +1,59 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ImageService } from '../image/image.service';
 import { VideoService } from '../video/video.service';
+import { VideoProviderName } from '../video/providers/video-provider';
+import { VideoPromptOptions, VideoPromptService } from '../video/video-prompt.service';
 import { EmailApprovalService } from '../email/email.service';
+import { ApprovalPolicyService } from '../email/approval-policy.service';
+import { ImagePoolService } from '../image/image-pool.service';
+import { ImageFormatName } from '../image/image-formats';
+import { CropOptions } from '../image/image-crop';
+import { FitOptions } from '../image/image-fit';
 import { InstagramUploadService } from '../instagram/instagram-upload.service';
-
-// Hardcoded video prompt - no need to generate this anymore
-const HARDCODED_VIDEO_PROMPT = "Create a dynamic video from this image. Add natural movement and life to the scene: gentle camera motion, moving elements like leaves, water, clouds, or people if present. Keep it smooth and realistic. Focus on bringing the static image to life with subtle animations and flowing movements. Dont add anything not present in the image. The main aim of the video is to make the image dynamic by motion.";
+import { WorkflowRunService, WorkflowRun, WorkflowTrigger } from './workflow-run.service';
+import { BrandProfile, BrandProfileService, CAPTION_TONES } from '../brand/brand-profile.service';
+import { CaptionOptions } from '../util/caption-helper';
+import { CaptionVariant, PendingContentService } from '../email/pending-content.service';
+import { ChatApprovalService, ChannelDelivery } from '../chat/chat-approval.service';
+import { ApprovalChannelName } from '../chat/chat-channels';
 
 export interface WorkflowConfig {
   imageUrl: string;
+  imageFormats?: ImageFormatName[]; // Format presets to render; the first is the video source. Plain 9:16 crop when unset
+  imageCrop?: CropOptions; // Where to crop, defaults to IMAGE_CROP_STRATEGY / "center"
+  imageFit?: FitOptions; // Crop or pad, defaults to IMAGE_FIT_MODE / "crop"; padding colors default to the brand color
   recipientEmail?: string;
   videoDuration?: "5" | "10";
   autoPublishToInstagram?: boolean; // New option to enable auto Instagram publishing
+  videoProvider?: VideoProviderName;
+  videoFallbackProviders?: VideoProviderName[];
+  brandProfile?: string; // Brand voice for the caption, defaults to DEFAULT_BRAND_PROFILE / "default"
+  videoPrompt?: VideoPromptOptions; // Motion prompt strategy, defaults to VIDEO_PROMPT_STRATEGY / "fixed"
+  captionVariants?: number; // Caption candidates to offer the approver, defaults to CAPTION_VARIANTS / 1
+  captionTones?: CaptionOptions['tone'][]; // One candidate per tone; overrides captionVariants
+  approvalPolicy?: string; // Overrides routing by brand profile / image tag
+  approvalChannels?: ApprovalChannelName[]; // Where the review request goes, defaults to the brand profile's / APPROVAL_CHANNELS / "email"
+}
+
+export interface WorkflowStepResult {
+  success: boolean;
+  data?: any;
+  error?: string;
+  reusedFrom?: string; // Run ID the output was copied from when resuming
+  warnings?: string[]; // Non-fatal problems the step repaired, e.g. caption normalization
 }
 
 export interface WorkflowResult {
+  runId?: string;
   success: boolean;
   steps: {
-    imageConversion: { success: boolean; data?: any; error?: string };
-    promptGeneration: { success: boolean; data?: any; error?: string };
-    captionGeneration: { success: boolean; data?: any; error?: string };
-    videoGeneration: { success: boolean; data?: any; error?: string };
-    emailSending: { success: boolean; data?: any; error?: string };
-    instagramUpload?: { success: boolean; data?: any; error?: string };
+    imageConversion: WorkflowStepResult;
+    promptGeneration: WorkflowStepResult;
+    captionGeneration: WorkflowStepResult;
+    videoGeneration: WorkflowStepResult;
+    emailSending: WorkflowStepResult;
+    instagramUpload?: WorkflowStepResult;
   };
   finalOutput?: {
     convertedImage: string;
@@ -38,6 +68,24 @@ export interface WorkflowResult {
   executionTime: number;
 }
 
+export type WorkflowStepName = keyof WorkflowResult['steps'];
+
+// Step order - index + 1 is the step number used in logs, job state and resume requests
+export const WORKFLOW_STEPS: WorkflowStepName[] = [
+  'imageConversion',
+  'promptGeneration',
+  'captionGeneration',
+  'videoGeneration',
+  'emailSending',
+  'instagramUpload',
+];
+
+interface ResumeSource {
+  runId: string;
+  fromStep: number;
+  steps: WorkflowResult['steps'];
+}
+
 @Injectable()
 export class WorkflowService {
   private readonly logger = new Logger(WorkflowService.name);
@@ -46,15 +94,30 @@ export class WorkflowService {
     private readonly configService: ConfigService,
     private readonly imageService: ImageService,
     private readonly videoService: VideoService,
+    private readonly videoPromptService: VideoPromptService,
     private readonly emailService: EmailApprovalService,
     private readonly instagramUploadService: InstagramUploadService,
+    private readonly workflowRunService: WorkflowRunService,
+    private readonly brandProfileService: BrandProfileService,
+    private readonly approvalPolicyService: ApprovalPolicyService,
+    private readonly imagePoolService: ImagePoolService,
+    private readonly pendingContentService: PendingContentService,
+    private readonly chatApprovalService: ChatApprovalService,
   ) {}
 
-  async executeCompleteWorkflow(config: WorkflowConfig): Promise<WorkflowResult> {
+  async executeCompleteWorkflow(
+    config: WorkflowConfig,
+    trigger: WorkflowTrigger = 'api',
+    runId?: string
+  ): Promise<WorkflowResult> {
     const startTime = Date.now();
     this.logger.log('🚀 Starting complete content creation workflow...');
+
+    const run = this.workflowRunService.startRun(config, trigger, runId);
+    let failureMessage: string | undefined;
     
     const result: WorkflowResult = {
+      runId: run.runId,
       success: false,
       steps: {
         imageConversion: { success: false },
@@ -68,152 +131,231 @@ export class WorkflowService {
     };
 
     try {
-      // Step 1: Convert image to 9:16 aspect ratio
-      this.logger.log('📐 Step 1: Converting image aspect ratio...');
-      try {
-        const convertedImageBase64 = await this.imageService.convertImageToAspectRatio(config.imageUrl);
-        result.steps.imageConversion = { 
-          success: true, 
-          data: { convertedImage: convertedImageBase64 } 
-        };
-        this.logger.log('✅ Step 1 completed: Image converted to 9:16 ratio');
-      } catch (error) {
-        result.steps.imageConversion = { success: false, error: error.message };
-        this.logger.error('❌ Step 1 failed:', error.message);
-        throw error;
+      const previous = this.loadResumeSource(run);
+
+      // Step 1: Convert image to the video's aspect ratio (9:16 or the first requested format)
+      if (!this.reuseStep(result, previous, 'imageConversion', 1)) {
+        this.logger.log('📐 Step 1: Converting image aspect ratio...');
+        this.workflowRunService.markStep(run.runId, 1, 'imageConversion');
+        try {
+          const imageFit = this.resolveImageFit(config);
+          const [primary, ...additionalFormats] = config.imageFormats?.length
+            ? await this.imageService.convertImageToFormats(config.imageUrl, config.imageFormats, config.imageCrop, imageFit)
+            : [await this.imageService.convertImageToAspectRatio(config.imageUrl, undefined, config.imageCrop, imageFit)];
+          result.steps.imageConversion = { 
+            success: true, 
+            data: {
+              convertedImage: primary.image,
+              format: primary.format ? { format: primary.format, width: primary.width, height: primary.height, mimeType: primary.mimeType } : undefined,
+              fit: primary.fit,
+              crop: primary.crop,
+              padding: primary.padding,
+              additionalFormats: additionalFormats.length > 0 ? additionalFormats : undefined,
+            },
+            warnings: primary.crop?.fallbackReason ? [`Subject detection failed, used attention crop: ${primary.crop.fallbackReason}`] : undefined
+          };
+          const placement = primary.padding ? `padded with ${primary.padding.style} background` : `${primary.crop.strategy} crop`;
+          this.logger.log(`✅ Step 1 completed: Image converted to ${config.imageFormats?.join(', ') || '9:16 ratio'} (${placement})`);
+        } catch (error) {
+          result.steps.imageConversion = { success: false, error: error.message };
+          this.logger.error('❌ Step 1 failed:', error.message);
+          throw error;
+        }
       }
 
-      // Step 2: Use hardcoded prompt (no generation needed)
-      this.logger.log('🧠 Step 2: Using hardcoded video prompt...');
-      try {
-        result.steps.promptGeneration = { 
-          success: true, 
-          data: { prompt: HARDCODED_VIDEO_PROMPT }
-        };
-        this.logger.log('✅ Step 2 completed: Using predefined prompt');
-      } catch (error) {
-        result.steps.promptGeneration = { success: false, error: error.message };
-        this.logger.error('❌ Step 2 failed:', error.message);
-        throw error;
+      // Step 2: Resolve the video motion prompt (fixed, library template or Gemini-generated)
+      if (!this.reuseStep(result, previous, 'promptGeneration', 2)) {
+        this.logger.log('🧠 Step 2: Resolving video prompt...');
+        this.workflowRunService.markStep(run.runId, 2, 'promptGeneration');
+        try {
+          const videoPrompt = await this.videoPromptService.resolvePrompt(
+            config.videoPrompt,
+            result.steps.imageConversion.data.convertedImage
+          );
+          result.steps.promptGeneration = { 
+            success: true, 
+            data: videoPrompt,
+            warnings: videoPrompt.generationError ? [`Prompt generation failed, used template: ${videoPrompt.generationError}`] : undefined
+          };
+          this.logger.log(`✅ Step 2 completed: Using ${videoPrompt.strategy} prompt${videoPrompt.template ? ` (template "${videoPrompt.template}")` : ''}`);
+        } catch (error) {
+          result.steps.promptGeneration = { success: false, error: error.message };
+          this.logger.error('❌ Step 2 failed:', error.message);
+          throw error;
+        }
       }
 
       // Step 3: Generate caption and hashtags directly from image URL
-      this.logger.log('📝 Step 3: Generating caption and hashtags from image URL...');
-      try {
-        const captionResult = await this.imageService.generateCaptionFromImageUrl(
-          config.imageUrl,
-          {
-            tone: 'casual',
-            maxHashtags: 15,
-            maxCaptionLength: 300,
-            includeCallToAction: true,
-            targetAudience: 'social media users'
-          }
-        );
-        result.steps.captionGeneration = { 
-          success: true, 
-          data: captionResult 
-        };
-        this.logger.log('✅ Step 3 completed: Caption and hashtags generated from image');
-      } catch (error) {
-        result.steps.captionGeneration = { success: false, error: error.message };
-        this.logger.error('❌ Step 3 failed:', error.message);
-        throw error;
+      if (!this.reuseStep(result, previous, 'captionGeneration', 3)) {
+        this.logger.log('📝 Step 3: Generating caption and hashtags from image URL...');
+        this.workflowRunService.markStep(run.runId, 3, 'captionGeneration');
+        try {
+          const brandProfile = this.brandProfileService.resolveProfile(config.brandProfile);
+          this.logger.log(`🎨 Using brand profile "${brandProfile.name}"`);
+          const { captionResult, variants, warnings } = await this.generateCaptionVariants(config, brandProfile);
+          result.steps.captionGeneration = { 
+            success: true, 
+            data: { ...captionResult, brandProfile: brandProfile.name, variants },
+            warnings: warnings.length > 0 ? warnings : undefined
+          };
+          this.logger.log(`✅ Step 3 completed: ${variants.length} caption variant(s) generated from image`);
+        } catch (error) {
+          result.steps.captionGeneration = { success: false, error: error.message };
+          this.logger.error('❌ Step 3 failed:', error.message);
+          throw error;
+        }
       }
 
-      // Step 4: Generate video with hardcoded prompt
-      this.logger.log('🎬 Step 4: Generating video with predefined prompt...');
-      try {
-        const videoResult = await this.videoService.generateVideo({
-          imageBase64: result.steps.imageConversion.data.convertedImage,
-          prompt: HARDCODED_VIDEO_PROMPT,
-          duration: config.videoDuration || "5"
-        });
-        result.steps.videoGeneration = { 
-          success: true, 
-          data: videoResult 
-        };
-        this.logger.log('✅ Step 4 completed: Video generated');
-      } catch (error) {
-        result.steps.videoGeneration = { success: false, error: error.message };
-        this.logger.error('❌ Step 4 failed:', error.message);
-        throw error;
+      // Step 4: Generate video with the prompt from step 2
+      if (!this.reuseStep(result, previous, 'videoGeneration', 4)) {
+        this.logger.log('🎬 Step 4: Generating video...');
+        this.workflowRunService.markStep(run.runId, 4, 'videoGeneration');
+        try {
+          const videoResult = await this.videoService.generateVideo({
+            imageBase64: result.steps.imageConversion.data.convertedImage,
+            prompt: result.steps.promptGeneration.data.prompt,
+            negativePrompt: result.steps.promptGeneration.data.negativePrompt,
+            duration: config.videoDuration || "5",
+            provider: config.videoProvider,
+            fallbackProviders: config.videoFallbackProviders
+          });
+          result.steps.videoGeneration = { 
+            success: true, 
+            data: videoResult 
+          };
+          this.logger.log('✅ Step 4 completed: Video generated');
+        } catch (error) {
+          result.steps.videoGeneration = { success: false, error: error.message };
+          this.logger.error('❌ Step 4 failed:', error.message);
+          throw error;
+        }
       }
 
-      // Step 5: Send email with results
-      this.logger.log('📧 Step 5: Sending email with video and content...');
-      try {
-        const recipientEmail = config.recipientEmail || this.configService.get<string>('MAIL_USER');
-        
-        if (!recipientEmail) {
-          throw new Error('No recipient email provided and MAIL_USER not configured');
-        }
+      // Step 5: Send the content out for approval
+      if (!this.reuseStep(result, previous, 'emailSending', 5)) {
+        this.logger.log('📧 Step 5: Sending video and content for approval...');
+        this.workflowRunService.markStep(run.runId, 5, 'emailSending');
+        try {
+          const brandProfile = result.steps.captionGeneration.data.brandProfile || config.brandProfile;
+          const recipientEmail = config.recipientEmail || this.configService.get<string>('MAIL_USER');
+          const policy = this.approvalPolicyService.resolvePolicy({
+            name: config.approvalPolicy,
+            brandProfile,
+            imageTags: this.imagePoolService.findImageByUrl(config.imageUrl)?.tags,
+          });
+          const channels = this.chatApprovalService.resolveChannels(config.approvalChannels, brandProfile);
 
-        await this.emailService.sendContentDeliveryEmail(
-          recipientEmail,
-          result.steps.videoGeneration.data.videoUrl,
-          result.steps.captionGeneration.data.caption,
-          result.steps.captionGeneration.data.hashtags
-        );
+          if (policy) {
+            this.logger.log(`👥 Routing approval to policy "${policy.name}" (${policy.approvers.length} approver(s))`);
+            // Policy approvals are tracked per approver, which only their own email links can do
+            if (!channels.includes('email')) {
+              this.logger.warn(`⚠️ Approval policy "${policy.name}" needs approver emails - adding email to ${channels.join(', ')}`);
+              channels.unshift('email');
+            }
+          }
+          if (channels.includes('email') && !recipientEmail && !policy) {
+            throw new Error('No recipient email provided and MAIL_USER not configured');
+          }
+
+          const pendingContent = this.pendingContentService.createPendingContent({
+            videoUrl: result.steps.videoGeneration.data.videoUrl,
+            caption: result.steps.captionGeneration.data.caption,
+            hashtags: result.steps.captionGeneration.data.hashtags,
+            recipientEmail,
+            runId: run.runId,
+            variants: result.steps.captionGeneration.data.variants,
+            approval: policy ? this.approvalPolicyService.toApprovalRequest(policy) : undefined,
+            channels,
+            imageCrop: result.steps.imageConversion.data.crop,
+            imageFit: result.steps.imageConversion.data.fit,
+            imagePadding: result.steps.imageConversion.data.padding,
+          });
+
+          const deliveries: ChannelDelivery[] = [];
+          if (channels.includes('email')) {
+            try {
+              await this.emailService.sendApprovalRequestEmails(pendingContent);
+              deliveries.push({ channel: 'email', success: true });
+            } catch (error) {
+              deliveries.push({ channel: 'email', success: false, error: error.message });
+            }
+          }
+          deliveries.push(...await this.chatApprovalService.postForApproval(pendingContent, channels));
+
+          const failed = deliveries.filter(delivery => !delivery.success);
+          if (failed.length === deliveries.length) {
+            throw new Error(`Approval request could not be delivered (${failed.map(delivery => `${delivery.channel}: ${delivery.error}`).join('; ')})`);
+          }
         
-        result.steps.emailSending = { 
-          success: true, 
-          data: { emailSent: true, recipientEmail } 
-        };
-        this.logger.log('✅ Step 5 completed: Email sent successfully');
-      } catch (error) {
-        result.steps.emailSending = { success: false, error: error.message };
-        this.logger.error('❌ Step 5 failed:', error.message);
-        // Don't throw here - we still want to return the content even if email fails
+          result.steps.emailSending = { 
+            success: true, 
+            data: {
+              emailSent: deliveries.some(delivery => delivery.channel === 'email' && delivery.success),
+              recipientEmail: pendingContent.recipientEmail,
+              approvalPolicy: policy?.name,
+              channels: deliveries,
+              contentId: pendingContent.contentId
+            },
+            warnings: failed.length > 0 ? failed.map(delivery => `${delivery.channel}: ${delivery.error}`) : undefined,
+          };
+          this.logger.log(`✅ Step 5 completed: Sent for approval via ${deliveries.filter(delivery => delivery.success).map(delivery => delivery.channel).join(', ')}`);
+        } catch (error) {
+          result.steps.emailSending = { success: false, error: error.message };
+          this.logger.error('❌ Step 5 failed:', error.message);
+          // Don't throw here - we still want to return the content even if email fails
+        }
       }
 
       // Step 6: Auto Instagram Upload (if enabled)
-      if (config.autoPublishToInstagram) {
-        this.logger.log('📱 Step 6: Auto-publishing to Instagram...');
-        try {
-          const fullCaption = `${result.steps.captionGeneration.data.caption}\n\n${result.steps.captionGeneration.data.hashtags.join(' ')}`;
+      if (!this.reuseStep(result, previous, 'instagramUpload', 6)) {
+        if (config.autoPublishToInstagram) {
+          this.logger.log('📱 Step 6: Auto-publishing to Instagram...');
+          this.workflowRunService.markStep(run.runId, 6, 'instagramUpload');
+          try {
+            const fullCaption = `${result.steps.captionGeneration.data.caption}\n\n${result.steps.captionGeneration.data.hashtags.join(' ')}`;
           
-          const instagramResult = await this.instagramUploadService.createInstagramContainer(
-            result.steps.videoGeneration.data.videoUrl,
-            fullCaption
-          );
+            const instagramResult = await this.instagramUploadService.createInstagramContainer(
+              result.steps.videoGeneration.data.videoUrl,
+              fullCaption
+            );
 
-          result.steps.instagramUpload = {
-            success: instagramResult.success,
-            data: {
-              containerId: instagramResult.containerId,
-              message: instagramResult.message,
-              scheduled: true,
-              publishIn: '1 minute'
-            }
-          };
+            result.steps.instagramUpload = {
+              success: instagramResult.success,
+              data: {
+                containerId: instagramResult.containerId,
+                message: instagramResult.message,
+                scheduled: true,
+                publishWhen: 'after Instagram finishes processing'
+              }
+            };
 
-          if (instagramResult.success) {
-            this.logger.log(`✅ Step 6 completed: Instagram container created (${instagramResult.containerId})`);
-            this.logger.log('⏰ Content will be published automatically in 1 minute');
-          } else {
-            this.logger.error(`❌ Step 6 failed: ${instagramResult.message}`);
+            if (instagramResult.success) {
+              this.logger.log(`✅ Step 6 completed: Instagram container created (${instagramResult.containerId})`);
+              this.logger.log('⏰ Content will be published automatically once Instagram finishes processing');
+            } else {
+              this.logger.error(`❌ Step 6 failed: ${instagramResult.message}`);
+            }
+          } catch (error) {
+            result.steps.instagramUpload = { 
+              success: false, 
+              error: error.message 
+            };
+            this.logger.error('❌ Step 6 failed:', error.message);
+            // Don't throw - continue with workflow completion
           }
-        } catch (error) {
+        } else {
+          this.logger.log('📱 Step 6: Instagram upload skipped (autoPublishToInstagram = false)');
           result.steps.instagramUpload = { 
-            success: false, 
-            error: error.message 
+            success: true, 
+            data: { skipped: true, reason: 'autoPublishToInstagram disabled' } 
           };
-          this.logger.error('❌ Step 6 failed:', error.message);
-          // Don't throw - continue with workflow completion
         }
-      } else {
-        this.logger.log('📱 Step 6: Instagram upload skipped (autoPublishToInstagram = false)');
-        result.steps.instagramUpload = { 
-          success: true, 
-          data: { skipped: true, reason: 'autoPublishToInstagram disabled' } 
-        };
       }
 
       // Set final output
       result.finalOutput = {
         convertedImage: result.steps.imageConversion.data.convertedImage,
-        prompt: HARDCODED_VIDEO_PROMPT,
+        prompt: result.steps.promptGeneration.data.prompt,
         caption: result.steps.captionGeneration.data.caption,
         hashtags: result.steps.captionGeneration.data.hashtags,
         videoUrl: result.steps.videoGeneration.data.videoUrl,
@@ -223,19 +365,178 @@ export class WorkflowService {
       };
 
       result.success = true;
+      // Only finished runs count as a use, so a failed run doesn't push its image to the back of the pool
+      this.imagePoolService.recordUsage(config.imageUrl, run.runId);
       this.logger.log('🎉 Workflow completed successfully!');
 
     } catch (error) {
       this.logger.error('💥 Workflow failed:', error.message);
       result.success = false;
+      failureMessage = error.message;
     } finally {
       result.executionTime = Date.now() - startTime;
       this.logger.log(`⏱️ Total execution time: ${result.executionTime}ms`);
+      this.workflowRunService.finishRun(run.runId, result, failureMessage);
     }
 
     return result;
   }
 
+  /**
+   * Padding without an explicit color uses the brand profile's color
+   */
+  private resolveImageFit(config: WorkflowConfig): FitOptions {
+    const brandColor = this.brandProfileService.resolveProfile(config.brandProfile).brandColor;
+    return { ...config.imageFit, color: config.imageFit?.color || brandColor };
+  }
+
+  /**
+   * Checks a request's options before it runs or is queued, so bad input is a 400 rather than a failed run
+   */
+  validateConfig(config: WorkflowConfig): void {
+    if (!config.imageUrl) {
+      throw new BadRequestException('imageUrl is required');
+    }
+    if (config.brandProfile) {
+      this.brandProfileService.getProfile(config.brandProfile);
+    }
+    if (config.approvalPolicy) {
+      this.approvalPolicyService.getPolicy(config.approvalPolicy);
+    }
+    this.chatApprovalService.validateChannels(config.approvalChannels);
+    this.imageService.validateFormats(config.imageFormats);
+    this.imageService.validateCropOptions(config.imageCrop);
+    this.imageService.validateFitOptions(config.imageFit);
+    this.videoPromptService.validateOptions(config.videoPrompt);
+  }
+
+  /**
+   * Validate a resume request and work out which step to restart from.
+   * Without an explicit fromStep the run restarts at its first failed step; an explicit
+   * fromStep can move that earlier (to redo a step) but never past a step that failed.
+   * fromStep comes straight from the request body, so any number or string is checked here.
+   */
+  resolveResumeStep(sourceRun: WorkflowRun, fromStep?: number | string): number {
+    if (sourceRun.status === 'queued' || sourceRun.status === 'running') {
+      throw new BadRequestException(`Workflow run ${sourceRun.runId} is still ${sourceRun.status}`);
+    }
+
+    const steps = sourceRun.result?.steps;
+    const firstFailed = steps
+      ? WORKFLOW_STEPS.findIndex(name => !steps[name]?.success) + 1
+      : 1;
+    const firstIncomplete = firstFailed === 0 ? WORKFLOW_STEPS.length + 1 : firstFailed;
+
+    if (fromStep === undefined) {
+      if (firstFailed === 0) {
+        throw new BadRequestException(`Workflow run ${sourceRun.runId} has no failed step to resume from`);
+      }
+      return firstFailed;
+    }
+
+    const requested = /^\d+$/.test(String(fromStep))
+      ? Number(fromStep)
+      : WORKFLOW_STEPS.indexOf(fromStep as WorkflowStepName) + 1;
+    if (!Number.isInteger(requested) || requested < 1 || requested > WORKFLOW_STEPS.length) {
+      throw new BadRequestException(
+        `Invalid fromStep. Use 1-${WORKFLOW_STEPS.length} or one of: ${WORKFLOW_STEPS.join(', ')}`
+      );
+    }
+
+    return Math.min(requested, firstIncomplete);
+  }
+
+  /**
+   * Generate one caption per requested tone. The first successful variant is the default;
+   * variants that fail are reported as warnings unless none succeed.
+   */
+  private async generateCaptionVariants(config: WorkflowConfig, brandProfile: BrandProfile) {
+    const configuredCount = config.captionVariants || parseInt(this.configService.get<string>('CAPTION_VARIANTS') || '1', 10) || 1;
+    const tones = config.captionTones?.length
+      ? config.captionTones
+      : [brandProfile.tone, ...CAPTION_TONES.filter(tone => tone !== brandProfile.tone)].slice(0, Math.max(1, configuredCount));
+
+    const invalidTones = tones.filter(tone => !CAPTION_TONES.includes(tone));
+    if (invalidTones.length > 0) {
+      throw new BadRequestException(`Invalid caption tone(s): ${invalidTones.join(', ')}. Expected: ${CAPTION_TONES.join(', ')}`);
+    }
+
+    const baseOptions = this.brandProfileService.toCaptionOptions(brandProfile);
+    const variants: Array<CaptionVariant & { validation: any; provider: string; model: string }> = [];
+    const warnings: string[] = [];
+    let captionResult: Awaited<ReturnType<ImageService['generateCaptionFromImageUrl']>>;
+
+    for (const tone of tones) {
+      const label = tones.length > 1 ? `[${tone}] ` : '';
+      try {
+        const generated = await this.imageService.generateCaptionFromImageUrl(config.imageUrl, { ...baseOptions, tone });
+        captionResult = captionResult || generated;
+        variants.push({
+          index: variants.length,
+          tone,
+          caption: generated.caption,
+          hashtags: generated.hashtags,
+          validation: generated.validation,
+          provider: generated.metadata.provider,
+          model: generated.metadata.model,
+        });
+        warnings.push(...generated.validation.issues.map(issue => `${label}${issue}`));
+      } catch (error) {
+        if (tones.length === 1) {
+          throw error;
+        }
+        this.logger.warn(`⚠️ Caption variant "${tone}" failed: ${error.message}`);
+        warnings.push(`${label}Variant failed: ${error.message}`);
+      }
+    }
+
+    if (variants.length === 0) {
+      throw new Error(`All ${tones.length} caption variants failed`);
+    }
+    return { captionResult, variants, warnings };
+  }
+
+  private loadResumeSource(run: WorkflowRun): ResumeSource | null {
+    if (!run.resumedFrom) {
+      return null;
+    }
+
+    const sourceRun = this.workflowRunService.getRun(run.resumedFrom.runId);
+    if (!sourceRun?.result) {
+      throw new NotFoundException(`Workflow run ${run.resumedFrom.runId} to resume from has no stored results`);
+    }
+
+    this.logger.log(`♻️ Resuming run ${sourceRun.runId} from step ${run.resumedFrom.fromStep}`);
+    return {
+      runId: sourceRun.runId,
+      fromStep: run.resumedFrom.fromStep,
+      steps: sourceRun.result.steps,
+    };
+  }
+
+  /**
+   * Copy a successful step output from the run being resumed instead of executing it again
+   */
+  private reuseStep(
+    result: WorkflowResult,
+    previous: ResumeSource | null,
+    name: WorkflowStepName,
+    stepNumber: number
+  ): boolean {
+    if (!previous || stepNumber >= previous.fromStep) {
+      return false;
+    }
+
+    const step = previous.steps[name];
+    if (!step?.success) {
+      return false;
+    }
+
+    result.steps[name] = { ...step, reusedFrom: step.reusedFrom || previous.runId };
+    this.logger.log(`♻️ Step ${stepNumber} (${name}) reused from run ${previous.runId}`);
+    return true;
+  }
+
   /**
    * Handle email approval and automatically trigger Instagram upload
    * This is called when user clicks "approve" in the email
@@ -259,7 +560,7 @@ export class WorkflowService {
       if (result.success) {
         this.logger.log(`🎉 Instagram upload initiated successfully!`);
         this.logger.log(`📱 Container ID: ${result.containerId}`);
-        this.logger.log(`⏰ Will be published automatically in 1 minute`);
+        this.logger.log(`⏰ Will be published automatically once Instagram finishes processing`);
       } else {
         this.logger.error(`❌ Instagram upload failed: ${result.message}`);
       }